@@ -1,30 +1,47 @@
 import React, { useState } from 'react';
 import { TypeCanvas } from './components/TypeCanvas';
 import { AboutModal } from './components/AboutModal';
+import { Lobby } from './components/Lobby';
 import { AppMode } from './types';
+import { useRoomRoute, generateRoomId } from './hooks/useRoomRoute';
 
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.TYPING);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const { roomId, openRoom } = useRoomRoute();
 
   // If in navigation mode, clicking background doesn't do much, handled in Canvas
   
   return (
     <div className="relative w-screen h-screen bg-white">
       
-      {/* Canvas Layer */}
-      <TypeCanvas mode={mode} setMode={setMode} />
+      {/* Canvas Layer, or the lobby when no room is open */}
+      {roomId ? (
+        <TypeCanvas key={roomId} roomId={roomId} mode={mode} setMode={setMode} />
+      ) : (
+        <Lobby onOpenRoom={openRoom} onNewRoom={() => openRoom(generateRoomId())} />
+      )}
 
       {/* UI Layer */}
       <AboutModal isOpen={isAboutOpen} onClose={() => setIsAboutOpen(false)} />
 
       {!isAboutOpen && (
-        <button
-          onClick={() => setIsAboutOpen(true)}
-          className="fixed top-4 left-4 z-40 text-sm font-medium hover:underline"
-        >
-          How To Use
-        </button>
+        <div className="fixed top-4 left-4 z-40 flex gap-4">
+          <button
+            onClick={() => setIsAboutOpen(true)}
+            className="text-sm font-medium hover:underline"
+          >
+            How To Use
+          </button>
+          {roomId && (
+            <button
+              onClick={() => openRoom(null)}
+              className="text-sm font-medium hover:underline"
+            >
+              Rooms
+            </button>
+          )}
+        </div>
       )}
     </div>
   );
@@ -27,16 +27,46 @@ export const AboutModal: React.FC<AboutModalProps> = ({ isOpen, onClose }) => {
           <ul className="list-disc pl-5 space-y-1 text-gray-800">
             <li>Use your cursor to set the target position</li>
             <li>Type to place the letters along the path created by your cursor</li>
+            <li>Any script works, including input methods, emoji and right-to-left text (point the cursor left)</li>
             <li>Enter to start a new line</li>
+            <li>
+              Click one of your lines or use the arrow keys, Home and End to put the caret
+              anywhere in it. Typing and Backspace/Delete work at the caret, and the rest of the
+              line slides along its shape; hold Alt or Ctrl to delete a whole word.
+            </li>
+            <li>
+              Pick a layout at the bottom to type along a freehand stroke, a curve with
+              draggable points, a spiral, a circle or a straight ruler instead of following the cursor.
+              The last button turns letters to follow the path.
+            </li>
             <li>
               Escape to go into navigation mode where you can
-              select, move and delete lines. Double click on a line
+              select, move and delete lines. Drag on the background to select
+              several lines, then drag them together, or use the box's corners to
+              scale and its top handle to rotate them. Double click on a line
               to edit it; and right-click on a line to erase it.
             </li>
-            <li>See other users' cursors and lines on your canvas</li>
+            <li>
+              Scroll or pinch to zoom; in navigation mode, hold Space and
+              drag to pan. Use the Fit button to see every line.
+            </li>
+            <li>
+              On a touchscreen, pinch with two fingers to zoom and pan, tap the keyboard button
+              at the bottom to type, and press and hold one of your lines to edit or erase it
+            </li>
+            <li>Ctrl/Cmd+Z to undo your last change, Shift+Ctrl/Cmd+Z to redo it</li>
+            <li>
+              In navigation mode, Ctrl/Cmd+C, X and V copy, cut and paste the selected lines at
+              your cursor, also into another tab or room; Ctrl/Cmd+D duplicates them
+            </li>
+            <li>See other users' cursors and lines on your canvas, with faint guides to where they're typing</li>
+            <li>Click a name in the users list to jump to them, or the target button next to it to follow them around</li>
+            <li>Click your style at the bottom right to pick the color, font and size of new lines</li>
             <li>Use the Flow button to start the animation</li>
-            <li>Use the Save button to download your canvas as PNG</li>
+            <li>Use the Export button to download the whole canvas as SVG (optionally animated), PNG or a .typedraw document, or to import a document</li>
+            <li>Use the History button to replay how the room was drawn, and download the replay</li>
             <li>Use the Clear button to erase all your lines</li>
+            <li>Use the Share button to copy a link to this room, and Rooms to see every room</li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Line } from '../types';
+import type { Camera } from '../hooks/useCamera';
+import { getShapedValue } from '../utils/text';
+import type { LineIndex } from '../utils/spatialIndex';
+import { getVisibleLineIds, type Viewport } from './LinesLayer';
+
+interface LinesCanvasProps {
+  lines: Line[];
+  index: LineIndex; // Holds the same lines, to find those on screen
+  camera: Camera;
+  viewport: Viewport;
+  selectedLineIds: Set<string>;
+  isNavigating: boolean;
+}
+
+function traceChars(ctx: CanvasRenderingContext2D, line: Line) {
+  ctx.beginPath();
+  line.chars.forEach((c, i) => {
+    if (i === 0) ctx.moveTo(c.x, c.y);
+    else ctx.lineTo(c.x, c.y);
+  });
+}
+
+/**
+ * Lines drawn onto a single 2D canvas rather than one SVG element per char,
+ * for rooms too large to keep that many elements around. It takes no pointer
+ * events: the canvas finds the line under the pointer in the line index.
+ */
+export const LinesCanvas: React.FC<LinesCanvasProps> = React.memo(({
+  lines,
+  index,
+  camera,
+  viewport,
+  selectedLineIds,
+  isNavigating,
+}: LinesCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Text drawn before the web fonts arrive is drawn again in them
+  const [fontLoads, setFontLoads] = useState(0);
+
+  useEffect(() => {
+    const handleFontsLoaded = () => setFontLoads((n: number) => n + 1);
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // Sharp on high-density screens
+    const ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, viewport.width * ratio, viewport.height * ratio);
+    ctx.setTransform(ratio * camera.zoom, 0, 0, ratio * camera.zoom, ratio * camera.x, ratio * camera.y);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const visibleIds = getVisibleLineIds(index, camera, viewport);
+    lines.forEach(line => {
+      if (!visibleIds.has(line.id)) return;
+      ctx.save();
+      ctx.translate(line.x, line.y);
+
+      if (isNavigating && selectedLineIds.has(line.id) && line.chars.length > 1) {
+        traceChars(ctx, line);
+        ctx.strokeStyle = '#e5e7eb';
+        ctx.lineWidth = 18;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = line.color;
+      ctx.font = `${line.fontSize}px "${line.fontFamily}"`;
+      line.chars.forEach((char, i) => {
+        if (char.rotate) {
+          ctx.save();
+          ctx.translate(char.x, char.y);
+          ctx.rotate(char.rotate * Math.PI / 180);
+          ctx.fillText(getShapedValue(line.chars, i), 0, 0);
+          ctx.restore();
+        } else {
+          ctx.fillText(getShapedValue(line.chars, i), char.x, char.y);
+        }
+      });
+      ctx.restore();
+    });
+  }, [lines, index, camera, viewport, selectedLineIds, isNavigating, fontLoads]);
+
+  const ratio = window.devicePixelRatio || 1;
+  return (
+    <canvas
+      ref={canvasRef}
+      width={viewport.width * ratio}
+      height={viewport.height * ratio}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+});
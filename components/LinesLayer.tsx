@@ -0,0 +1,171 @@
+import React from 'react';
+import { Line } from '../types';
+import { getCameraTransform, type Camera } from '../hooks/useCamera';
+import { getLinePath, getFlowDuration, getCharTransform } from '../shared/geometry';
+import { getShapedValue } from '../utils/text';
+import type { LineIndex } from '../utils/spatialIndex';
+
+// What the canvas does with pointer events on a line
+export interface LineHandlers {
+  onPointerDown: (e: React.PointerEvent, lineId: string) => void;
+  onDoubleClick: (e: React.MouseEvent, lineId: string) => void;
+  onContextMenu: (e: React.MouseEvent, lineId: string) => void;
+}
+
+// Screen pixels drawn past the edges, so lines don't pop in while panning
+const CULL_MARGIN = 100;
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Ids of the lines on screen, or near enough
+export function getVisibleLineIds(index: LineIndex, camera: Camera, viewport: Viewport): Set<string> {
+  return index.query({
+    minX: (-CULL_MARGIN - camera.x) / camera.zoom,
+    minY: (-CULL_MARGIN - camera.y) / camera.zoom,
+    maxX: (viewport.width + CULL_MARGIN - camera.x) / camera.zoom,
+    maxY: (viewport.height + CULL_MARGIN - camera.y) / camera.zoom,
+  });
+}
+
+interface LineViewProps {
+  line: Line;
+  isSelected: boolean;
+  isNavigating: boolean;
+  isOwnLine: boolean;
+  isAnimating: boolean;
+  handlers: { current: LineHandlers }; // Read when an event fires, so the view never re-renders for new handlers
+}
+
+// Lines keep their identity until they change, so an unchanged line is skipped entirely
+const LineView: React.FC<LineViewProps> = React.memo(({ line, isSelected, isNavigating, isOwnLine, isAnimating, handlers }: LineViewProps) => (
+  <g
+    data-line-id={line.id}
+    transform={`translate(${line.x}, ${line.y})`}
+    className={`pointer-events-auto select-none transition-opacity ${isNavigating && isOwnLine ? 'cursor-move hover:opacity-70' : ''}`}
+    onPointerDown={(e) => handlers.current.onPointerDown(e, line.id)}
+    onDoubleClick={(e) => handlers.current.onDoubleClick(e, line.id)}
+    onContextMenu={(e) => handlers.current.onContextMenu(e, line.id)}
+  >
+    {/* Invisible Hit Area for easier selection */}
+    {isNavigating && (
+       <path
+         d={`M${line.chars.map(c => `${c.x},${c.y}`).join(' L')}`}
+         stroke="transparent"
+         strokeWidth="20"
+         fill="none"
+       />
+    )}
+
+    {/* Selection Highlight */}
+    {isSelected && isNavigating && (
+       <path
+         d={line.chars.length > 1 ? `M${line.chars.map(c => `${c.x},${c.y}`).join(' L')}` : ''}
+         stroke="#e5e7eb"
+         strokeWidth="18"
+         strokeLinecap="round"
+         fill="none"
+       />
+    )}
+
+    {/* Text - uses line's color, font, and size */}
+    {isAnimating && line.chars.length >= 2 ? (
+      <>
+        {/* Define path for textPath animation */}
+        <defs>
+          <path
+            id={`path-${line.id}`}
+            d={getLinePath(line)}
+            fill="none"
+          />
+        </defs>
+        {/* Animated text along path - duplicated for seamless loop */}
+        <text
+          fill={line.color}
+          fontSize={line.fontSize}
+          fontFamily={line.fontFamily}
+          dominantBaseline="middle"
+        >
+          <textPath
+            href={`#path-${line.id}`}
+            startOffset="0%"
+          >
+            <animate
+              attributeName="startOffset"
+              from="-50%"
+              to="0%"
+              dur={`${getFlowDuration(line)}s`}
+              repeatCount="indefinite"
+            />
+            {/* Duplicate text for seamless looping */}
+            {line.chars.map(c => c.value).join('') + '   ' + line.chars.map(c => c.value).join('')}
+          </textPath>
+        </text>
+      </>
+    ) : (
+      line.chars.map((char, i) => (
+        <text
+          key={char.id}
+          x={char.x}
+          y={char.y}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fill={line.color}
+          fontSize={line.fontSize}
+          fontFamily={line.fontFamily}
+          transform={getCharTransform(char)}
+        >
+          {getShapedValue(line.chars, i)}
+        </text>
+      ))
+    )}
+  </g>
+));
+
+interface LinesLayerProps {
+  lines: Line[];
+  index: LineIndex; // Holds the same lines, to find those on screen
+  camera: Camera;
+  viewport: Viewport;
+  selectedLineIds: Set<string>;
+  isNavigating: boolean;
+  editableUserId: string | null; // Whose lines can be moved, if anyone's
+  isAnimating: boolean;
+  handlers: { current: LineHandlers };
+}
+
+/**
+ * Every line on screen as SVG, in world space. Kept apart from the cursor,
+ * guides and other overlays, so moving the pointer doesn't render lines.
+ */
+export const LinesLayer: React.FC<LinesLayerProps> = React.memo(({
+  lines,
+  index,
+  camera,
+  viewport,
+  selectedLineIds,
+  isNavigating,
+  editableUserId,
+  isAnimating,
+  handlers,
+}: LinesLayerProps) => {
+  const visibleIds = getVisibleLineIds(index, camera, viewport);
+
+  return (
+    <g transform={getCameraTransform(camera)}>
+      {lines.filter(line => visibleIds.has(line.id)).map(line => (
+        <LineView
+          key={line.id}
+          line={line}
+          isSelected={selectedLineIds.has(line.id)}
+          isNavigating={isNavigating}
+          isOwnLine={line.userId === editableUserId}
+          isAnimating={isAnimating}
+          handlers={handlers}
+        />
+      ))}
+    </g>
+  );
+});
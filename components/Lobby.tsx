@@ -0,0 +1,75 @@
+import React from 'react';
+import { Plus } from 'lucide-react';
+import { THUMBNAIL_SIZE, type RoomSummary } from '../shared/protocol';
+import { useLobby } from '../hooks/useLobby';
+
+interface LobbyProps {
+  onOpenRoom: (roomId: string) => void;
+  onNewRoom: () => void;
+}
+
+const RoomThumbnail: React.FC<{ room: RoomSummary }> = ({ room }) => (
+  <svg
+    viewBox={`-4 -4 ${THUMBNAIL_SIZE + 8} ${THUMBNAIL_SIZE + 8}`}
+    className="w-full aspect-square bg-white"
+  >
+    {room.thumbnail.map((stroke, i) =>
+      stroke.points.length === 1 ? (
+        <circle key={i} cx={stroke.points[0].x} cy={stroke.points[0].y} r={1.5} fill={stroke.color} />
+      ) : (
+        <polyline
+          key={i}
+          points={stroke.points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke={stroke.color}
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      )
+    )}
+  </svg>
+);
+
+export const Lobby: React.FC<LobbyProps> = ({ onOpenRoom, onNewRoom }) => {
+  const { rooms, error } = useLobby();
+
+  return (
+    <div className="w-full min-h-screen bg-white px-4 pt-16 pb-8 text-sm text-black">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="font-medium text-base">ROOMS</h1>
+        <button
+          onClick={onNewRoom}
+          className="flex items-center gap-1.5 text-sm font-medium hover:underline"
+          title="Start a new canvas with its own link"
+        >
+          <Plus size={14} />
+          <span>New room</span>
+        </button>
+      </div>
+
+      {error && <p className="text-gray-400 mb-4">{error}</p>}
+      {rooms === null && !error && <p className="text-gray-400">Loading…</p>}
+      {rooms?.length === 0 && <p className="text-gray-400">No rooms yet. Start one!</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {rooms?.map(room => (
+          <button
+            key={room.id}
+            onClick={() => onOpenRoom(room.id)}
+            className="text-left border border-gray-200 hover:border-gray-400 transition-colors"
+          >
+            <RoomThumbnail room={room} />
+            <div className="flex justify-between items-center px-2 py-1.5 border-t border-gray-100 text-xs">
+              <span className="truncate">{room.id}</span>
+              <span className="flex items-center gap-1.5 text-gray-400 shrink-0">
+                {room.userCount > 0 && <span className="w-2 h-2 rounded-full bg-green-500" />}
+                {room.userCount === 1 ? '1 person' : `${room.userCount} people`}
+              </span>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useSyncExternalStore } from 'react';
+import { Point } from '../types';
+import { getCameraTransform, worldToScreen, type Camera } from '../hooks/useCamera';
+
+/**
+ * The target letters flow toward, in world space. It follows the pointer, so it's
+ * kept out of React state: a move re-renders the overlays drawing it, not the canvas.
+ * Reads like a ref, so event handlers can use it as one.
+ */
+export class TargetStore {
+  private listeners = new Set<() => void>();
+
+  constructor(private point: Point) {}
+
+  get current(): Point {
+    return this.point;
+  }
+
+  set(point: Point) {
+    this.point = point;
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.point;
+}
+
+// Layout guide the next letters are placed along, in world space
+export const GuidePath: React.FC<{ points: Point[]; camera: Camera; color: string }> = ({ points, camera, color }) => (
+  <g transform={getCameraTransform(camera)}>
+    <polyline
+      points={points.map(p => `${p.x},${p.y}`).join(' ')}
+      fill="none"
+      stroke={color}
+      strokeWidth="1.5"
+      strokeOpacity="0.3"
+      strokeDasharray="4 4"
+      vectorEffect="non-scaling-stroke"
+    />
+  </g>
+);
+
+interface PointerOverlayProps {
+  target: TargetStore;
+  camera: Camera;
+  color: string | undefined; // Our own, once the server told us
+  lineHead: Point | null; // Head of the line typed freely toward the target, if any
+  anchor: Point | null; // Start of a new line typed toward the target, if any
+  showTarget: boolean;
+  getPendingGuide: ((target: Point) => Point[] | null) | null; // Guide a new line would take from here
+}
+
+// What moves with the pointer while typing, drawn at screen size
+export const PointerOverlay: React.FC<PointerOverlayProps> = ({ target, camera, color, lineHead, anchor, showTarget, getPendingGuide }) => {
+  const targetPos: Point = useSyncExternalStore(target.subscribe, target.getSnapshot);
+  const point = worldToScreen(camera, targetPos);
+  const head = lineHead && worldToScreen(camera, lineHead);
+  const start = anchor && worldToScreen(camera, anchor);
+  const guidePoints = getPendingGuide?.(targetPos);
+
+  return (
+    <>
+      {/* Draw Guide Line in Typing Mode - from line head to cursor */}
+      {head && (
+        <line
+          x1={head.x}
+          y1={head.y}
+          x2={point.x}
+          y2={point.y}
+          stroke={color || '#ff0000'}
+          strokeWidth="1"
+          strokeOpacity="0.2"
+        />
+      )}
+
+      {/* Guide Line from Anchor to Cursor - shows the path for new line */}
+      {start && (
+        <line
+          x1={start.x}
+          y1={start.y}
+          x2={point.x}
+          y2={point.y}
+          stroke={color || '#ff0000'}
+          strokeWidth="1.5"
+          strokeOpacity="0.3"
+          strokeDasharray="4 4"
+        />
+      )}
+
+      {guidePoints && guidePoints.length >= 2 && (
+        <GuidePath points={guidePoints} camera={camera} color={color || '#ff0000'} />
+      )}
+
+      {/* Target Cursor Indicator - shows where typing will go towards */}
+      {showTarget && (
+        <circle
+          cx={point.x}
+          cy={point.y}
+          r={8}
+          fill={color || 'orange'}
+        />
+      )}
+    </>
+  );
+};
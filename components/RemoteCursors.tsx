@@ -1,36 +1,143 @@
-import React from 'react';
-import { User } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Line, Point, User } from '../types';
+import { worldToScreen, type Camera } from '../hooks/useCamera';
+import { addCursorSample, getCursorPosition, isCursorSettled, type CursorSample } from '../utils/cursorMotion';
 
 interface RemoteCursorsProps {
   users: Record<string, User>;
+  lines: Line[]; // To find the lines others are typing into
+  camera: Camera; // Cursors arrive in world space but are drawn at screen size
 }
 
-export const RemoteCursors: React.FC<RemoteCursorsProps> = ({ users }) => {
+// Where the next letter of each line goes, in world space, for the lines in lineIds
+function getLineHeads(lines: Line[], lineIds: Set<string>): Map<string, Point> {
+  const heads = new Map<string, Point>();
+  if (lineIds.size === 0) return heads;
+  lines.forEach(line => {
+    if (!lineIds.has(line.id)) return;
+    const last = line.chars[line.chars.length - 1];
+    heads.set(line.id, last ? { x: line.x + last.x, y: line.y + last.y } : { x: line.x, y: line.y });
+  });
+  return heads;
+}
+
+export const RemoteCursors: React.FC<RemoteCursorsProps> = ({ users, lines, camera }) => {
+  // Positions received per user, which the cursors glide between
+  const samplesRef = useRef(new Map<string, CursorSample[]>());
+  const frameRef = useRef<number | null>(null);
+  const [now, setNow] = useState(() => performance.now());
+
+  // New positions become samples, and the cursors animate until they catch up
+  useEffect(() => {
+    const time = performance.now();
+    const samples = samplesRef.current;
+    Object.values(users).forEach((user: User) => {
+      samples.set(user.id, addCursorSample(samples.get(user.id) ?? [], user.cursor, time));
+    });
+    [...samples.keys()].forEach(id => {
+      if (!users[id]) samples.delete(id);
+    });
+
+    if (frameRef.current !== null) return;
+    const animate = () => {
+      const frameTime = performance.now();
+      setNow(frameTime);
+      const moving = [...samplesRef.current.values()].some(s => !isCursorSettled(s, frameTime));
+      frameRef.current = moving ? requestAnimationFrame(animate) : null;
+    };
+    frameRef.current = requestAnimationFrame(animate);
+  }, [users]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  const typingUsers = Object.values(users).filter((user: User) => user.presence.mode === 'TYPING');
+  const heads = getLineHeads(lines, new Set(typingUsers.map((user: User) => user.presence.activeLineId ?? '')));
+
   return (
     <>
-      {Object.values(users).map((user: User) => (
-        <g key={user.id} transform={`translate(${user.cursor.x}, ${user.cursor.y})`}>
-          {/* Cursor pointer shape */}
-          <path
-            d="M0,0 L0,16 L4,12 L8,20 L10,19 L6,11 L12,11 Z"
-            fill={user.color}
-            stroke="white"
-            strokeWidth="1"
-            style={{
-              filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
-            }}
-          />
-          {/* User color indicator dot */}
-          <circle
-            cx={16}
-            cy={-4}
-            r={6}
-            fill={user.color}
-            stroke="white"
-            strokeWidth="2"
-          />
-        </g>
-      ))}
+      {Object.values(users).map((user: User) => {
+        const samples = samplesRef.current.get(user.id);
+        const cursor = worldToScreen(camera, samples ? getCursorPosition(samples, now) : user.cursor);
+
+        // Where they're typing from: the line they're extending, or the anchor of the one they're about to start
+        const { presence } = user;
+        const head = presence.activeLineId ? heads.get(presence.activeLineId) : null;
+        const from = presence.mode === 'TYPING' && (head ?? presence.anchor);
+        const start = from && worldToScreen(camera, from);
+        const anchor = presence.mode === 'TYPING' && !presence.activeLineId && presence.anchor
+          ? worldToScreen(camera, presence.anchor)
+          : null;
+
+        return (
+          <g key={user.id}>
+            {/* Faint guide from where they type towards their cursor */}
+            {start && (
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={cursor.x}
+                y2={cursor.y}
+                stroke={user.color}
+                strokeWidth="1"
+                strokeOpacity="0.15"
+              />
+            )}
+
+            {/* Their anchor, fainter than our own */}
+            {anchor && (
+              <rect
+                x={anchor.x - 5}
+                y={anchor.y - 5}
+                width={10}
+                height={10}
+                fill={user.color}
+                fillOpacity="0.15"
+                stroke={user.color}
+                strokeOpacity="0.5"
+                strokeWidth="1.5"
+              />
+            )}
+
+            <g transform={`translate(${cursor.x}, ${cursor.y})`}>
+              {/* Cursor pointer shape */}
+              <path
+                d="M0,0 L0,16 L4,12 L8,20 L10,19 L6,11 L12,11 Z"
+                fill={user.color}
+                stroke="white"
+                strokeWidth="1"
+                style={{
+                  filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
+                }}
+              />
+              {/* User color indicator dot */}
+              <circle
+                cx={16}
+                cy={-4}
+                r={6}
+                fill={user.color}
+                stroke="white"
+                strokeWidth="2"
+              />
+              {/* Typing indicator */}
+              {presence.isTyping && (
+                <text
+                  x={24}
+                  y={-4}
+                  dominantBaseline="middle"
+                  fill={user.color}
+                  fontSize="10"
+                  className="animate-pulse select-none"
+                >
+                  typing…
+                </text>
+              )}
+            </g>
+          </g>
+        );
+      })}
     </>
   );
 };
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import {
+  LIMITS,
+  USER_COLORS,
+  USER_FONT_FAMILIES,
+  USER_FONT_SIZES,
+  type LineStyle,
+} from '../shared/protocol';
+
+interface StylePickerProps {
+  currentUser: User;
+  onChange: (style: LineStyle) => void;
+}
+
+// Keep typing in the inputs from landing on the canvas
+const stopKeys = (e: React.KeyboardEvent) => e.stopPropagation();
+
+/**
+ * The current user's color, font and size, opening a picker on click.
+ * Changes only apply to lines drawn afterwards.
+ */
+export const StylePicker: React.FC<StylePickerProps> = ({ currentUser, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { color, fontFamily, fontSize } = currentUser;
+
+  const update = (change: Partial<LineStyle>) => onChange({ color, fontFamily, fontSize, ...change });
+
+  return (
+    <div
+      className="relative pointer-events-auto"
+      onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 hover:text-black"
+        title="Change your color, font and size"
+      >
+        <span
+          className="w-3 h-3 rounded-full"
+          style={{ backgroundColor: color }}
+        />
+        <span style={{ fontFamily, fontSize: '10px' }}>
+          {fontFamily} • {fontSize}px
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-6 right-0 w-56 bg-white border border-gray-200 shadow-sm text-sm text-gray-800 p-3 flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-1.5">
+            {USER_COLORS.map(option => (
+              <button
+                key={option}
+                onClick={() => update({ color: option })}
+                className={`w-5 h-5 rounded-full ${option.toLowerCase() === color.toLowerCase() ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => update({ color: e.target.value })}
+              onKeyDown={stopKeys}
+              className="w-6 h-6 cursor-pointer"
+              title="Any color"
+            />
+          </div>
+
+          <div className="flex flex-col">
+            {USER_FONT_FAMILIES.map(option => (
+              <button
+                key={option}
+                onClick={() => update({ fontFamily: option })}
+                className={`px-2 py-1 text-left hover:bg-gray-50 ${option === fontFamily ? 'bg-gray-100' : ''}`}
+                style={{ fontFamily: option }}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5 text-xs">
+            {USER_FONT_SIZES.map(option => (
+              <button
+                key={option}
+                onClick={() => update({ fontSize: option })}
+                className={`px-1.5 py-0.5 border ${option === fontSize ? 'border-gray-400' : 'border-gray-200'}`}
+              >
+                {option}
+              </button>
+            ))}
+            <input
+              type="number"
+              min={LIMITS.fontSize.min}
+              max={LIMITS.fontSize.max}
+              value={fontSize}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value >= LIMITS.fontSize.min && value <= LIMITS.fontSize.max) {
+                  update({ fontSize: value });
+                }
+              }}
+              onKeyDown={stopKeys}
+              className="w-14 border border-gray-200 px-1"
+            />
+            <span className="text-gray-400">px</span>
+          </div>
+
+          <div
+            className="text-center truncate"
+            style={{ color, fontFamily, fontSize: Math.min(fontSize, 40) }}
+          >
+            Type Draw
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
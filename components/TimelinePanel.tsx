@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState, useCallback } from 'react';
+import { useTimeline } from '../hooks/useTimeline';
+import { useCamera, getCameraTransform } from '../hooks/useCamera';
+import { materializeLines } from '../shared/operations';
+import { getCharTransform } from '../shared/geometry';
+import { TimelineReplay, getReplayTimes } from '../utils/replay';
+import { exportReplay } from '../utils/exportReplay';
+import { getShapedValue } from '../utils/text';
+import { Play, Pause, Download, X } from 'lucide-react';
+
+interface TimelinePanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 5, 10, 50];
+
+/**
+ * Replays the room's history over the canvas: scrub to any point, or play it
+ * back at a chosen speed. Read-only; the live room carries on underneath.
+ */
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ roomId, onClose }) => {
+  const { entries, error } = useTimeline(roomId);
+  const { camera, fitToBounds } = useCamera();
+
+  // Number of entries applied, so 0 is the empty room
+  const [count, setCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(5);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const replay = useMemo(() => entries && new TimelineReplay(entries), [entries]);
+  const times = useMemo(() => getReplayTimes(entries ?? [], speed), [entries, speed]);
+  const lines = useMemo(() => (replay ? materializeLines(replay.getDocsAt(count)) : []), [replay, count]);
+  const total = entries?.length ?? 0;
+
+  // Frame everything that was ever drawn, and start at the end
+  useEffect(() => {
+    if (!replay) return;
+    fitToBounds(replay.bounds);
+    setCount(replay.entries.length);
+  }, [replay, fitToBounds]);
+
+  // Step through entries, waiting the (shortened) time between them
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (count >= total) {
+      setIsPlaying(false);
+      return;
+    }
+    const delay = count === 0 ? 0 : times[count] - times[count - 1];
+    const timer = setTimeout(() => setCount(c => c + 1), delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, count, total, times]);
+
+  const handlePlayPause = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end starts over
+    if (count >= total) setCount(0);
+    setIsPlaying(true);
+  }, [isPlaying, count, total]);
+
+  const handleExport = useCallback(() => {
+    if (!entries) return;
+    setIsExporting(true);
+    exportReplay(entries, speed)
+      .catch(e => console.error('Error exporting replay:', e))
+      .finally(() => setIsExporting(false));
+  }, [entries, speed]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const current = count > 0 && entries ? entries[count - 1] : null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-white select-none"
+      onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas underneath
+    >
+      <svg className="w-full h-full">
+        <g transform={getCameraTransform(camera)}>
+          {lines.map(line => (
+            <g key={line.id} transform={`translate(${line.x}, ${line.y})`}>
+              {line.chars.map((char, i) => (
+                <text
+                  key={char.id}
+                  x={char.x}
+                  y={char.y}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  fill={line.color}
+                  fontSize={line.fontSize}
+                  fontFamily={line.fontFamily}
+                  transform={getCharTransform(char)}
+                >
+                  {getShapedValue(line.chars, i)}
+                </text>
+              ))}
+            </g>
+          ))}
+        </g>
+      </svg>
+
+      {(error || !entries) && (
+        <div className="fixed inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+          {error ?? 'Loading history…'}
+        </div>
+      )}
+
+      {/* Playback controls */}
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 w-[36rem] max-w-[calc(100%-2rem)] bg-white border border-gray-200 shadow-sm text-sm flex items-center gap-3 px-4 py-2">
+        <button
+          onClick={handlePlayPause}
+          disabled={total === 0}
+          className="hover:opacity-70 disabled:opacity-30"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={total}
+          value={count}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setCount(Number(e.target.value));
+          }}
+          disabled={total === 0}
+          className="flex-1"
+        />
+        <span className="text-xs text-gray-400 whitespace-nowrap tabular-nums">
+          {current ? new Date(current.time).toLocaleString() : 'Start'} • {count}/{total}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="border border-gray-200 px-1 text-xs"
+          title="Playback speed"
+        >
+          {SPEEDS.map(s => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={total === 0 || isExporting}
+          className="hover:opacity-70 disabled:opacity-30"
+          title="Download the replay as an animated SVG"
+        >
+          <Download size={16} />
+        </button>
+        <button
+          onClick={onClose}
+          className="hover:opacity-70"
+          title="Back to the room"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,98 +1,399 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { AppMode, Line, Point, Char } from '../types';
 import { usePartySocket } from '../hooks/usePartySocket';
+import { getRoomUrl } from '../hooks/useRoomRoute';
+import { useCamera, zoomAt, type Camera } from '../hooks/useCamera';
+import { getLinesBounds, getCharPositions } from '../shared/geometry';
+import { exportSvg, exportPng, exportDocument, scaleToDpi } from '../utils/exportCanvas';
+import { getCharSpacing, getTextAdvance } from '../utils/glyphs';
+import {
+  createCurveHandles,
+  getGuideAngle,
+  getGuidePoint,
+  getGuidePoints,
+  getLayoutGuide,
+  type CurveHandles,
+  type Guide,
+  type LayoutMode,
+} from '../utils/layout';
+import { getCaretIndexAt, getCaretPlacement, reflowChars } from '../utils/caret';
+import { applyLineTransform, getLineTransform, type GroupTransform } from '../utils/transform';
+import { getTypedChars, splitGraphemes } from '../utils/text';
+import { centerLinesOn, createTextLines, readLinesFromClipboard, writeLinesToClipboard } from '../utils/clipboard';
+import { parseDocument, prepareImport, DOCUMENT_EXTENSION, type TypeDrawDocument } from '../shared/document';
+import { ProtocolError, type LineTransform } from '../shared/protocol';
+import { TRANSPORT_KIND } from '../utils/transport';
+import { LineIndex } from '../utils/spatialIndex';
+import { createId } from '../utils/id';
 import { RemoteCursors } from './RemoteCursors';
-import { Download, Trash2, Play, Pause } from 'lucide-react';
+import { GuidePath, PointerOverlay, TargetStore } from './PointerOverlay';
+import { UsersPanel } from './UsersPanel';
+import { StylePicker } from './StylePicker';
+import { TimelinePanel } from './TimelinePanel';
+import { LinesLayer, type LineHandlers, type Viewport } from './LinesLayer';
+import { LinesCanvas } from './LinesCanvas';
+import {
+  Download, Upload, Trash2, Play, Pause, Link, Maximize, History,
+  MousePointer2, Signature, Spline, Tornado, Circle, Ruler, RotateCw, Keyboard, Pencil, Eraser,
+} from 'lucide-react';
 
 interface TypeCanvasProps {
+  roomId: string;
   mode: AppMode;
   setMode: (mode: AppMode) => void;
 }
 
-const LETTER_SPACING = 12; // Distance between letters
+const LAYOUT_MODES: { mode: LayoutMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'follow', label: 'Follow the cursor', icon: <MousePointer2 size={14} /> },
+  { mode: 'stroke', label: 'Draw a stroke, then type along it', icon: <Signature size={14} /> },
+  { mode: 'curve', label: 'Curve with draggable control points', icon: <Spline size={14} /> },
+  { mode: 'spiral', label: 'Spiral around the anchor', icon: <Tornado size={14} /> },
+  { mode: 'circle', label: 'Circle around the anchor', icon: <Circle size={14} /> },
+  { mode: 'ruler', label: 'Straight line, snapped to 15°', icon: <Ruler size={14} /> },
+];
+
+// Open-ended guides are only previewed this far ahead
+const GUIDE_PREVIEW_LENGTH = 1500;
+
+// Screen pixels between recorded points of a freehand stroke
+const STROKE_MIN_STEP = 3;
+
+// How fast wheel deltas zoom; trackpad pinches arrive as ctrl+wheel with much smaller deltas
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+const WHEEL_LINE_HEIGHT = 16; // Pixels per wheel "line" when deltaMode is DOM_DELTA_LINE
+
+// Screen pixels from the caret's center to either end
+const CARET_HALF_LENGTH = 10;
+
+// ?renderer=canvas draws lines on one 2D canvas instead of as SVG text, for very large rooms
+const USE_CANVAS_RENDERER = new URLSearchParams(window.location.search).get('renderer') === 'canvas';
+
+// World units around a line's chars that still count as clicking it, like the SVG hit area
+const LINE_HIT_TOLERANCE = 10;
+
+// Others see us as typing until we've paused this long
+const TYPING_IDLE_MS = 1500;
+
+// Holding a finger or pen still this long on a line opens its menu, in place of
+// right-click and double-click; moving further than the slop (screen pixels) cancels it
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_SLOP = 10;
+
+// Phones and tablets only show their keyboard when asked, so they get a button for it
+const HAS_COARSE_POINTER = typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches;
+
+// Screen pixels a duplicate is set off from the lines it copies
+const DUPLICATE_OFFSET = 20;
+
+// Clipboard shortcuts inside form fields belong to the field
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+// Screen pixels between the selection box's top edge and its rotate handle
+const ROTATE_HANDLE_OFFSET = 24;
+const MIN_SELECTION_SCALE = 0.05;
+const ROTATE_SNAP = 15; // Degrees, while Shift is held
+
+// Dragging, turning or scaling the selected lines; lines are the user's own
+// selected lines as they were when the gesture started
+interface SelectionGesture {
+  kind: 'move' | 'rotate' | 'scale';
+  start: Point;
+  center: Point;
+  lines: Line[];
+}
+
+// Start of the word before a caret index: any spaces, then everything up to the next space
+function getWordStart(chars: Char[], index: number): number {
+  let i = index;
+  while (i > 0 && chars[i - 1].value === ' ') i--;
+  while (i > 0 && chars[i - 1].value !== ' ') i--;
+  return i;
+}
 
-export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
+// End of the word after a caret index, the same way forward
+function getWordEnd(chars: Char[], index: number): number {
+  let i = index;
+  while (i < chars.length && chars[i].value === ' ') i++;
+  while (i < chars.length && chars[i].value !== ' ') i++;
+  return i;
+}
+
+export const TypeCanvas: React.FC<TypeCanvasProps> = ({ roomId, mode, setMode }) => {
   // --- Multi-user State ---
   const {
     isConnected,
+    connectionError,
+    userId,
     currentUser,
     remoteUsers,
     lines,
-    setLines,
+    getLines,
     sendCursor,
+    sendPresence,
     addLine,
-    updateLine,
+    insertChars,
+    removeChars,
+    moveChars,
+    transformLines,
     deleteLines,
-  } = usePartySocket('main');
+    clearAll,
+    setUserRole,
+    updateUserStyle,
+    undo,
+    redo,
+    groupHistory,
+  } = usePartySocket(roomId);
+
+  // --- Camera ---
+  // Everything below is stored in world coordinates; only pointer events and overlays are in screen space
+  const { camera, cameraRef, setCamera, toWorld, toScreen, zoomAtPoint, fitToBounds } = useCamera();
+
+  // Last pointer position on screen, so the target can follow the camera as it moves
+  const pointerRef = useRef<Point>({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+
+  const [viewport, setViewport] = useState<Viewport>({ width: window.innerWidth, height: window.innerHeight });
+  // Index of the lines as shown, for event handlers; the render makes a new one when they change
+  const lineIndexRef = useRef(new LineIndex());
+  // Line events go through here, so lines don't re-render for every new handler
+  const lineHandlersRef = useRef<LineHandlers | null>(null);
+
+  // Pointers down on the canvas, so two fingers can pinch to zoom and pan in either mode
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; center: Point } | null>(null);
+  const lastPointerTypeRef = useRef('mouse');
+  const longPressRef = useRef<{ timer: number; start: Point } | null>(null);
+  // Edit / erase menu opened by a long press on a line, in screen space
+  const [lineMenu, setLineMenu] = useState<{ lineId: string; x: number; y: number } | null>(null);
+
+  // Space held in navigation mode turns dragging into panning
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const panStartRef = useRef<{ pointer: Point; camera: Camera } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
 
   // --- Local State ---
   const [activeLineId, setActiveLineId] = useState<string | null>(null);
   const [selectedLineIds, setSelectedLineIds] = useState<Set<string>>(new Set());
+  // Caret partway through the active line: how many of its chars come before it.
+  // Null (or a caret left on another line) means typing carries on from the end.
+  const [caret, setCaret] = useState<{ lineId: string; index: number } | null>(null);
   
   // The global "cursor" target position (where letters flow towards)
-  const [targetPos, setTargetPos] = useState<Point>({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+  const targetStore = useRef(new TargetStore({ x: window.innerWidth / 2, y: window.innerHeight / 2 })).current;
   
   // Anchor point - the fixed starting position for a new line (set on click, cleared when typing starts)
   const [anchorPoint, setAnchorPoint] = useState<Point | null>(null);
+
+  // --- Layout ---
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('follow');
+  // Turn each new letter to follow the direction of the line
+  const [rotateGlyphs, setRotateGlyphs] = useState(false);
+  // Freehand stroke being drawn, or drawn and waiting to be typed along (stroke mode)
+  const [stroke, setStroke] = useState<Point[]>([]);
+  const isDrawingStrokeRef = useRef(false);
+  // Curve waiting to be typed along (curve mode), and which of its points is being dragged
+  const [curve, setCurve] = useState<CurveHandles | null>(null);
+  const draggingHandleRef = useRef<keyof CurveHandles | null>(null);
+  // Guide the line started in a layout mode is typed along. Chars are placed relative to
+  // origin, where the line started, so moving the line doesn't throw off the rest of it.
+  const [lineGuide, setLineGuide] = useState<{ lineId: string; origin: Point; guide: Guide } | null>(null);
+
+  // Typing goes through a hidden text input, so IMEs, dead keys and emoji pickers work.
+  // Text being composed in an IME is shown at the line's head until it's committed.
+  const textInputRef = useRef<HTMLTextAreaElement>(null);
+  const composingRef = useRef(false);
+  const [composition, setComposition] = useState('');
+
+  // --- Presence ---
+  const [isTyping, setIsTyping] = useState(false);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whose cursor the camera keeps centered, until we move the camera ourselves
+  const [followedUserId, setFollowedUserId] = useState<string | null>(null);
+
+  const markTyping = () => {
+    setIsTyping(true);
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = setTimeout(() => setIsTyping(false), TYPING_IDLE_MS);
+  };
+
+  // History replay covers the canvas; keys and the wheel belong to it while open
+  const [showTimeline, setShowTimeline] = useState(false);
   
   // Using refs for values needed in event listeners to avoid stale closures without frequent re-renders
   const modeRef = useRef(mode);
   const activeLineIdRef = useRef(activeLineId);
+  const caretRef = useRef(caret);
   const linesRef = useRef(lines);
-  const targetPosRef = useRef(targetPos);
   const currentUserRef = useRef(currentUser);
   const anchorPointRef = useRef(anchorPoint);
+  const showTimelineRef = useRef(showTimeline);
+  const layoutModeRef = useRef(layoutMode);
+  const rotateGlyphsRef = useRef(rotateGlyphs);
+  const strokeRef = useRef(stroke);
+  const curveRef = useRef(curve);
+  const lineGuideRef = useRef(lineGuide);
   
   // Update refs SYNCHRONOUSLY to avoid race conditions when typing fast
   // Using assignment before render instead of useEffect (which runs after render)
   modeRef.current = mode;
   activeLineIdRef.current = activeLineId;
+  caretRef.current = caret;
   linesRef.current = lines;
-  targetPosRef.current = targetPos;
   currentUserRef.current = currentUser;
   anchorPointRef.current = anchorPoint;
+  showTimelineRef.current = showTimeline;
+  layoutModeRef.current = layoutMode;
+  rotateGlyphsRef.current = rotateGlyphs;
+  strokeRef.current = stroke;
+  curveRef.current = curve;
+  lineGuideRef.current = lineGuide;
 
   // --- Helpers ---
 
-  // Convert line characters into an SVG path string for textPath animation
-  const getLinePath = (line: Line): string => {
-    if (line.chars.length < 2) return '';
-    return `M ${line.chars.map(c => `${c.x},${c.y}`).join(' L ')}`;
-  };
-
-  // Calculate the total length of a line path (for animation timing)
-  const getLineLength = (line: Line): number => {
-    if (line.chars.length < 2) return 0;
-    let length = 0;
-    for (let i = 1; i < line.chars.length; i++) {
-      const dx = line.chars[i].x - line.chars[i - 1].x;
-      const dy = line.chars[i].y - line.chars[i - 1].y;
-      length += Math.sqrt(dx * dx + dy * dy);
-    }
-    return length;
+  // Lines can only be edited by their author, and never by viewers
+  const canEditLine = (line: Line | undefined): line is Line => {
+    const user = currentUserRef.current;
+    return !!line && user?.role !== 'viewer' && line.userId === userId;
   };
 
   const createLine = (x: number, y: number): Line => {
     const user = currentUserRef.current;
     return {
-      id: Math.random().toString(36).substr(2, 9),
+      id: createId(),
       chars: [],
       x,
       y,
-      userId: user?.id || 'local',
+      userId,
       color: user?.color || '#000000',
       fontSize: user?.fontSize || 16,
       fontFamily: user?.fontFamily || 'sans-serif',
     };
   };
 
+  // Turn the char to the given direction, if letters are set to follow the path
+  const orientChar = (char: Char, degrees: number): Char =>
+    rotateGlyphsRef.current ? { ...char, rotate: Math.round(degrees * 10) / 10 } : char;
+
+  // Guide a new line would be typed along right now, if the layout mode has one
+  const getPendingGuide = (maxLength?: number): Guide | null => {
+    const anchor = anchorPointRef.current ?? targetStore.current;
+    return getLayoutGuide(
+      layoutModeRef.current,
+      anchor,
+      targetStore.current,
+      { stroke: strokeRef.current, curve: curveRef.current },
+      maxLength
+    );
+  };
+
+  // Forget the guide and the shapes waiting to be typed along
+  const resetLayout = () => {
+    setStroke([]);
+    setCurve(null);
+    setLineGuide(null);
+  };
+
+  // Where the caret is on a line; the end unless it was put somewhere else
+  const getCaretIndex = (line: Line): number => {
+    const current = caretRef.current;
+    return current && current.lineId === line.id ? Math.min(current.index, line.chars.length) : line.chars.length;
+  };
+
+  const moveCaret = (line: Line, index: number) => {
+    const next = index < line.chars.length ? { lineId: line.id, index: Math.max(index, 0) } : null;
+    caretRef.current = next; // Update ref immediately
+    setCaret(next);
+  };
+
+  // Add a char at the caret, sliding the rest of the line along the shape it had
+  const insertAtCaret = (line: Line, index: number, value: string) => {
+    // Starts where it displaces a char, turned like it if chars are turned
+    const neighbour = line.chars[index] ?? line.chars[index - 1];
+    const char: Char = {
+      id: createId(),
+      value,
+      x: neighbour.x,
+      y: neighbour.y,
+      ...(neighbour.rotate !== undefined && { rotate: neighbour.rotate }),
+    };
+    const chars = [...line.chars.slice(0, index), char, ...line.chars.slice(index)];
+    const moves = reflowChars(chars, index, line.chars, line);
+    const placed = moves.find(move => move.id === char.id);
+    const rest = moves.filter(move => move.id !== char.id);
+
+    groupHistory(() => {
+      insertChars(line.id, line.chars[index - 1]?.id ?? null, [placed ? { ...char, ...placed.pos } : char]);
+      if (rest.length > 0) moveChars(line.id, rest);
+    });
+    linesRef.current = getLines(); // Update ref immediately to prevent race condition
+    moveCaret({ ...line, chars }, index + 1);
+  };
+
+  // Remove chars[from..to) and close the gap; the last char going takes the line with it
+  const removeRange = (line: Line, start: number, end: number) => {
+    const from = Math.max(start, 0);
+    const to = Math.min(end, line.chars.length);
+    if (from >= to) return;
+    const removed = line.chars.slice(from, to);
+    const chars = [...line.chars.slice(0, from), ...line.chars.slice(to)];
+
+    if (chars.length === 0) {
+      deleteLines([line.id]);
+      setActiveLineId(null);
+    } else {
+      const moves = reflowChars(chars, from, line.chars, line);
+      groupHistory(() => {
+        removeChars(line.id, removed.map(c => c.id));
+        if (moves.length > 0) moveChars(line.id, moves);
+      });
+    }
+    linesRef.current = getLines();
+    moveCaret({ ...line, chars }, from);
+  };
+
+  // Add copies of lines as the user's own, centered on a point, and select them
+  const addCopies = (source: Line[], center: Point) => {
+    if (currentUserRef.current?.role === 'viewer' || source.length === 0) return;
+    const copies = centerLinesOn(prepareImport(source, userId, createId), center);
+    groupHistory(() => copies.forEach(addLine));
+    linesRef.current = getLines(); // Update ref immediately
+    setSelectedLineIds(new Set(copies.map(line => line.id)));
+  };
+
+  // Enter: Start new line (clear current line, anchor and guide)
+  const startNewLine = () => {
+    setActiveLineId(null);
+    setAnchorPoint(null);
+    resetLayout();
+  };
+
+  // Backspace / Delete: remove the char (or the word) before / after the caret.
+  // Only own lines can be edited; returns whether there was one to edit.
+  const deleteAtCaret = (forward: boolean, byWord: boolean): boolean => {
+    const activeId = activeLineIdRef.current;
+    const line = activeId ? linesRef.current.find(l => l.id === activeId) : undefined;
+    if (!canEditLine(line)) return false;
+    markTyping();
+    const index = getCaretIndex(line);
+    if (forward) {
+      removeRange(line, index, byWord ? getWordEnd(line.chars, index) : index + 1);
+    } else {
+      removeRange(line, byWord ? getWordStart(line.chars, index) : index - 1, index);
+    }
+    return true;
+  };
+
+  // Where the next letter goes: after the active line's last one, or where a new line would start
   const getActiveLineHead = (): Point => {
     const currentLines = linesRef.current;
     const activeId = activeLineIdRef.current;
-    if (!activeId) return targetPosRef.current;
+    const start = anchorPointRef.current ?? targetStore.current;
+    if (!activeId) return start;
 
     const line = currentLines.find(l => l.id === activeId);
-    if (!line) return targetPosRef.current;
+    if (!line) return start;
 
     if (line.chars.length === 0) {
       return { x: line.x, y: line.y };
@@ -104,56 +405,135 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
 
   // --- Event Handlers ---
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    const newPos = { x: e.clientX, y: e.clientY };
-    setTargetPos(newPos);
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    // Fingers pinching move the camera, not the target
+    if (pinchRef.current) return;
+    pointerRef.current = { x: e.clientX, y: e.clientY };
+
+    const panStart = panStartRef.current;
+    if (panStart) {
+      setCamera({
+        ...panStart.camera,
+        x: panStart.camera.x + e.clientX - panStart.pointer.x,
+        y: panStart.camera.y + e.clientY - panStart.pointer.y,
+      });
+      return;
+    }
+
+    const newPos = toWorld(pointerRef.current);
+    targetStore.set(newPos);
     sendCursor(newPos);
-  }, [sendCursor]);
+  }, [sendCursor, setCamera, toWorld]);
+
+  // Wheel and trackpad zoom around the pointer
+  const handleWheel = useCallback((e: WheelEvent) => {
+    e.preventDefault(); // Also stops the browser zooming the page on ctrl+wheel
+    if (showTimelineRef.current) return;
+    setFollowedUserId(null);
+    const deltaY = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * WHEEL_LINE_HEIGHT : e.deltaY;
+    const factor = Math.exp(-deltaY * (e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED));
+    zoomAtPoint({ x: e.clientX, y: e.clientY }, factor);
+
+    // The pointer now sits over a different part of the world
+    const newPos = toWorld(pointerRef.current);
+    targetStore.set(newPos);
+    sendCursor(newPos);
+  }, [zoomAtPoint, toWorld, sendCursor]);
+
+  const handleKeyUp = useCallback((e: KeyboardEvent) => {
+    if (e.key === ' ') {
+      setIsSpaceHeld(false);
+    }
+  }, []);
 
   // Helper function to add a single character to the canvas
   const addCharToCanvas = useCallback((charValue: string, activeId: string | null): { newActiveId: string | null; newLine?: Line; shouldClearAnchor?: boolean } => {
     const user = currentUserRef.current;
     const anchor = anchorPointRef.current;
+    if (user?.role === 'viewer') {
+      return { newActiveId: activeId };
+    }
+
     let currentLineId = activeId;
     let currentLine = linesRef.current.find(l => l.id === currentLineId);
 
     // Can only continue typing on own lines
-    if (currentLine && currentLine.userId !== user?.id) {
+    if (currentLine && currentLine.userId !== userId) {
       currentLine = undefined;
       currentLineId = null;
     }
 
     // If no active line, or active line not found, start a new one at anchor point (or cursor if no anchor)
     if (!currentLineId || !currentLine) {
+      const guide = getPendingGuide();
+      // Nothing to type along yet, e.g. no stroke drawn
+      if (layoutModeRef.current !== 'follow' && !guide) {
+        return { newActiveId: activeId };
+      }
+
       // Use anchor point if set, otherwise fall back to cursor position
-      const startPos = anchor || targetPosRef.current;
-      const newLine = createLine(startPos.x, startPos.y);
+      const startPos = guide ? guide.points[0] : anchor || targetStore.current;
+      const origin = layoutModeRef.current === 'follow' ? startPos : anchor || targetStore.current;
+      const newLine = createLine(origin.x, origin.y);
       currentLineId = newLine.id;
       currentLine = newLine;
       
-      // Add the first character
-      const finalChar: Char = {
-        id: Math.random().toString(36).substr(2, 9),
+      // Add the first character, facing along the guide or toward the cursor
+      const target = targetStore.current;
+      const finalChar = orientChar({
+        id: createId(),
         value: charValue,
-        x: 0,
-        y: 0,
-      };
+        x: startPos.x - origin.x,
+        y: startPos.y - origin.y,
+      }, guide
+        ? getGuideAngle(guide, 0)
+        : Math.atan2(target.y - startPos.y, target.x - startPos.x) * 180 / Math.PI);
       const lineWithChar = { ...newLine, chars: [finalChar] };
-      const newLines = [...linesRef.current, lineWithChar];
-      linesRef.current = newLines; // Update ref immediately to prevent race condition
-      setLines(newLines);
       addLine(lineWithChar);
+      linesRef.current = getLines(); // Update ref immediately to prevent race condition
+      if (guide) {
+        lineGuideRef.current = { lineId: newLine.id, origin, guide };
+        setLineGuide(lineGuideRef.current);
+      }
       return { newActiveId: newLine.id, newLine: lineWithChar, shouldClearAnchor: true };
     }
 
+    // Typing partway through the line
+    const caretIndex = getCaretIndex(currentLine);
+    if (caretIndex < currentLine.chars.length) {
+      insertAtCaret(currentLine, caretIndex, charValue);
+      return { newActiveId: currentLineId };
+    }
+
+    // Lines started along a guide keep to it, each letter set after the previous one
+    const lineGuide = lineGuideRef.current;
+    if (lineGuide && lineGuide.lineId === currentLine.id) {
+      const distance = getTextAdvance([...currentLine.chars.map(c => c.value), charValue], currentLine);
+      const point = getGuidePoint(lineGuide.guide, distance);
+      if (!point) return { newActiveId: currentLineId }; // Reached the end of the guide
+
+      const lastCharId = currentLine.chars.length > 0 ? currentLine.chars[currentLine.chars.length - 1].id : null;
+      insertChars(currentLine.id, lastCharId, [orientChar({
+        id: createId(),
+        value: charValue,
+        x: point.x - lineGuide.origin.x,
+        y: point.y - lineGuide.origin.y,
+      }, getGuideAngle(lineGuide.guide, distance))]);
+      linesRef.current = getLines(); // Update ref immediately to prevent race condition
+      return { newActiveId: currentLineId };
+    }
+
     // Calculate position for new char
     let startX = 0;
     let startY = 0;
+    // As far from the last letter as the font would set it
+    let spacing = 0;
 
     if (currentLine.chars.length > 0) {
       const lastChar = currentLine.chars[currentLine.chars.length - 1];
       startX = lastChar.x;
       startY = lastChar.y;
+      spacing = getCharSpacing(lastChar.value, charValue, currentLine);
     }
 
     // Global position of the "head" of the line
@@ -161,43 +541,80 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
     const globalHeadY = currentLine.y + startY;
 
     // Vector to target
-    const dx = targetPosRef.current.x - globalHeadX;
-    const dy = targetPosRef.current.y - globalHeadY;
+    const dx = targetStore.current.x - globalHeadX;
+    const dy = targetStore.current.y - globalHeadY;
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     // If there's not enough space for a new letter (distance to target is too small), don't add it
-    if (currentLine.chars.length > 0 && distance < LETTER_SPACING) {
+    if (currentLine.chars.length > 0 && distance < spacing) {
       return { newActiveId: currentLineId };
     }
 
     const angle = Math.atan2(dy, dx);
 
     // New relative position
-    const newCharX = startX + Math.cos(angle) * LETTER_SPACING;
-    const newCharY = startY + Math.sin(angle) * LETTER_SPACING;
+    const newCharX = startX + Math.cos(angle) * spacing;
+    const newCharY = startY + Math.sin(angle) * spacing;
 
-    const finalChar: Char = {
-      id: Math.random().toString(36).substr(2, 9),
+    const finalChar = orientChar({
+      id: createId(),
       value: charValue,
       x: currentLine.chars.length === 0 ? 0 : newCharX,
       y: currentLine.chars.length === 0 ? 0 : newCharY,
-    };
+    }, angle * 180 / Math.PI);
 
-    // Update the line
-    const updatedLine = { ...currentLine, chars: [...currentLine.chars, finalChar] };
-    const newLines = linesRef.current.map(l => 
-      l.id === currentLineId ? updatedLine : l
-    );
-    linesRef.current = newLines; // Update ref immediately to prevent race condition
-    setLines(newLines);
-    updateLine(updatedLine);
+    // Append to the line
+    const lastCharId = currentLine.chars.length > 0 ? currentLine.chars[currentLine.chars.length - 1].id : null;
+    insertChars(currentLine.id, lastCharId, [finalChar]);
+    linesRef.current = getLines(); // Update ref immediately to prevent race condition
     return { newActiveId: currentLineId };
-  }, [setLines, addLine, updateLine]);
+  }, [userId, getLines, addLine, insertChars]);
+
+  // Add typed or pasted text to the canvas, one char per grapheme, undone together
+  const typeText = useCallback((text: string) => {
+    const chars = getTypedChars(text);
+    if (chars.length === 0) return;
+    markTyping();
+
+    let currentActiveId = activeLineIdRef.current;
+    let shouldClearAnchor = false;
+
+    groupHistory(() => {
+      for (const char of chars) {
+        const result = addCharToCanvas(char, currentActiveId);
+        currentActiveId = result.newActiveId;
+        if (result.shouldClearAnchor) {
+          shouldClearAnchor = true;
+        }
+      }
+    });
+
+    // Update the active line ID to the final state; refs right away, for text arriving before the next render
+    activeLineIdRef.current = currentActiveId;
+    setActiveLineId(currentActiveId);
+    if (shouldClearAnchor) {
+      anchorPointRef.current = null;
+      setAnchorPoint(null);
+    }
+  }, [addCharToCanvas, groupHistory]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    // Keys during IME composition belong to the IME
+    if (showTimelineRef.current || e.isComposing || composingRef.current) return;
+
     const currentMode = modeRef.current;
     const activeId = activeLineIdRef.current;
-    const user = currentUserRef.current;
+
+    // --- Undo / Redo (both modes) ---
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+      return;
+    }
 
     // --- Mode Switching ---
     if (e.key === 'Escape') {
@@ -206,6 +623,7 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
         setActiveLineId(null);
         setAnchorPoint(null);
         setSelectedLineIds(new Set());
+        resetLayout();
       } else {
         setMode(AppMode.TYPING);
       }
@@ -214,18 +632,35 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
 
     // --- Navigation Mode Controls ---
     if (currentMode === AppMode.NAVIGATION) {
+      // Duplicate: copies of the selection, just off to the side
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault(); // Not a bookmark
+        const selected = linesRef.current.filter(l => selectedLineIds.has(l.id));
+        const bounds = getLinesBounds(selected);
+        if (bounds) {
+          const offset = DUPLICATE_OFFSET / cameraRef.current.zoom;
+          addCopies(selected, { x: (bounds.minX + bounds.maxX) / 2 + offset, y: (bounds.minY + bounds.maxY) / 2 + offset });
+        }
+        return;
+      }
+
+      if (e.key === ' ') {
+        e.preventDefault(); // Don't scroll the page
+        setIsSpaceHeld(true);
+        return;
+      }
+
       if (e.key === 'Backspace' || e.key === 'Delete') {
         // Only delete lines that belong to the current user
         const toDelete: string[] = [];
         selectedLineIds.forEach(id => {
           const line = linesRef.current.find(l => l.id === id);
-          if (line && line.userId === user?.id) {
+          if (canEditLine(line)) {
             toDelete.push(id);
           }
         });
         
         if (toDelete.length > 0) {
-          setLines(linesRef.current.filter(l => !toDelete.includes(l.id)));
           deleteLines(toDelete);
         }
         setSelectedLineIds(new Set());
@@ -235,281 +670,611 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
 
     // --- Typing Mode Controls ---
     if (currentMode === AppMode.TYPING) {
-      // Enter: Start new line (clear current line and anchor)
       if (e.key === 'Enter') {
-        setActiveLineId(null);
-        setAnchorPoint(null);
+        e.preventDefault(); // Not a line break in the text input
+        startNewLine();
         return;
       }
 
-      // Backspace: Remove last char
-      if (e.key === 'Backspace') {
-        if (activeId) {
-          const line = linesRef.current.find(l => l.id === activeId);
-          // Only allow editing own lines
-          if (line && line.userId === user?.id) {
-            const newChars = line.chars.slice(0, -1);
-            if (newChars.length === 0) {
-              // Remove the line entirely
-              const newLines = linesRef.current.filter(l => l.id !== activeId);
-              setLines(newLines);
-              deleteLines([activeId]);
-              setActiveLineId(null);
-            } else {
-              const updatedLine = { ...line, chars: newChars };
-              const newLines = linesRef.current.map(l => 
-                l.id === activeId ? updatedLine : l
-              );
-              setLines(newLines);
-              updateLine(updatedLine);
-            }
+      const activeLine = activeId ? linesRef.current.find(l => l.id === activeId) : undefined;
+
+      // Caret movement along the active line
+      if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) {
+        if (canEditLine(activeLine)) {
+          e.preventDefault();
+          const index = getCaretIndex(activeLine);
+          let next = e.key === 'Home' ? 0 : activeLine.chars.length;
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            // Arrows move the way they point on screen, so lines typed right to left
+            // (or along a path doubling back) are walked the way they read
+            const gapX = (i: number) => getCaretPlacement(activeLine, i).point.x;
+            const forward = index < activeLine.chars.length ? gapX(index + 1) - gapX(index) : 0;
+            const backward = index > 0 ? gapX(index) - gapX(index - 1) : 0;
+            const towardRight = forward !== 0 ? forward > 0 : backward >= 0;
+            next = (e.key === 'ArrowRight') === towardRight ? index + 1 : index - 1;
           }
+          moveCaret(activeLine, next);
         }
         return;
       }
 
-      // Typing characters
-      if (e.key.length === 1 && !e.metaKey && !e.ctrlKey && !e.altKey) {
-        const result = addCharToCanvas(e.key, activeId);
-        if (result.newActiveId !== activeId) {
-          activeLineIdRef.current = result.newActiveId; // Update ref immediately
-          setActiveLineId(result.newActiveId);
-        }
-        if (result.shouldClearAnchor) {
-          anchorPointRef.current = null; // Update ref immediately
-          setAnchorPoint(null);
-        }
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        if (deleteAtCaret(e.key === 'Delete', e.altKey || e.ctrlKey)) e.preventDefault();
+        return;
+      }
+
+      // Typing characters. The text input gets them itself, IME text included;
+      // this only catches keys pressed while it isn't focused.
+      if (
+        e.target !== textInputRef.current &&
+        splitGraphemes(e.key).length === 1 &&
+        !e.metaKey && !e.ctrlKey && !e.altKey
+      ) {
+        typeText(e.key);
       }
     }
-  }, [setMode, selectedLineIds, setLines, addLine, updateLine, deleteLines, sendCursor, addCharToCanvas]);
+  }, [setMode, selectedLineIds, deleteLines, typeText, undo, redo]);
+
+  // Copy or cut the selected lines in navigation mode. Lines of others can be copied but stay put on cut.
+  const handleCopy = useCallback((e: ClipboardEvent) => {
+    if (modeRef.current !== AppMode.NAVIGATION || showTimelineRef.current || isEditableTarget(e.target)) return;
+    const selected = linesRef.current.filter(l => selectedLineIds.has(l.id));
+    if (selected.length === 0 || !e.clipboardData) return;
+
+    e.preventDefault();
+    writeLinesToClipboard(e.clipboardData, selected, roomId);
+    if (e.type === 'cut') {
+      const own = selected.filter(canEditLine).map(line => line.id);
+      if (own.length > 0) deleteLines(own);
+      setSelectedLineIds(new Set());
+    }
+  }, [selectedLineIds, roomId, deleteLines]);
 
   // Handle paste events
   const handlePaste = useCallback((e: ClipboardEvent) => {
     const currentMode = modeRef.current;
+    if (showTimelineRef.current) return;
+
+    // Navigation mode pastes lines at the cursor: copied ones, or new ones from plain text
+    if (currentMode === AppMode.NAVIGATION) {
+      if (isEditableTarget(e.target) || !e.clipboardData) return;
+      e.preventDefault();
+      const copied = readLinesFromClipboard(e.clipboardData);
+      if (copied) {
+        addCopies(copied, targetStore.current);
+      } else {
+        const template = createLine(0, 0);
+        addCopies(createTextLines(e.clipboardData.getData('text'), { x: 0, y: 0 }, template, createId), targetStore.current);
+      }
+      return;
+    }
     
-    // Only handle paste in typing mode
+    // Otherwise only handle paste in typing mode
     if (currentMode !== AppMode.TYPING) return;
     
     e.preventDefault();
     
     const clipboardText = e.clipboardData?.getData('text');
-    if (!clipboardText) return;
-    
-    // Filter out newlines and other control characters, keep only printable chars
-    const chars = clipboardText.split('').filter(char => char.length === 1 && char >= ' ');
-    
-    if (chars.length === 0) return;
-    
-    let currentActiveId = activeLineIdRef.current;
-    let shouldClearAnchor = false;
-    
-    // Add each character from the pasted text
-    for (const char of chars) {
-      const result = addCharToCanvas(char, currentActiveId);
-      currentActiveId = result.newActiveId;
-      if (result.shouldClearAnchor) {
-        shouldClearAnchor = true;
-      }
+    if (clipboardText) typeText(clipboardText);
+  }, [typeText]);
+
+  // Whatever has landed in the text input is typed, then the input is emptied. Text being
+  // composed stays until the composition ends; browsers differ on whether the last input
+  // event comes before or after compositionend, so both take what's there.
+  const flushTextInput = () => {
+    const input = textInputRef.current;
+    if (!input || composingRef.current || !input.value) return;
+    const text = input.value;
+    input.value = '';
+    if (modeRef.current === AppMode.TYPING) typeText(text);
+  };
+
+  const handleTextInput = (e: React.FormEvent<HTMLTextAreaElement>) => {
+    if ((e.nativeEvent as InputEvent).isComposing) return;
+    flushTextInput();
+  };
+
+  const handleCompositionStart = () => {
+    composingRef.current = true;
+  };
+
+  const handleCompositionEnd = () => {
+    composingRef.current = false;
+    setComposition('');
+    flushTextInput();
+  };
+
+  // On-screen keyboards often send Backspace and Enter only as edits to the text input,
+  // without a usable keydown; the input is always empty, so they're taken as commands
+  const handleBeforeInput = (e: InputEvent) => {
+    if (e.isComposing || modeRef.current !== AppMode.TYPING) return;
+    if (e.inputType === 'insertLineBreak' || e.inputType === 'insertParagraph') {
+      e.preventDefault();
+      startNewLine();
+    } else if (e.inputType.startsWith('delete')) {
+      e.preventDefault();
+      deleteAtCaret(e.inputType.includes('Forward'), e.inputType.includes('Word'));
     }
-    
-    // Update the active line ID to the final state
-    setActiveLineId(currentActiveId);
-    if (shouldClearAnchor) {
-      setAnchorPoint(null);
+  };
+
+  useEffect(() => {
+    const input = textInputRef.current;
+    input?.addEventListener('beforeinput', handleBeforeInput);
+    return () => input?.removeEventListener('beforeinput', handleBeforeInput);
+  });
+
+  // Keep the text input focused while typing, and out of the way otherwise
+  useEffect(() => {
+    const input = textInputRef.current;
+    if (!input) return;
+    if (mode === AppMode.TYPING && !showTimeline) {
+      input.focus({ preventScroll: true });
+    } else {
+      input.blur();
     }
-  }, [addCharToCanvas]); 
+  }, [mode, showTimeline]);
 
   // Attach global listeners
   useEffect(() => {
-    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('pointermove', handlePointerMove);
     window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCopy);
     window.addEventListener('paste', handlePaste);
+    // Not passive, so the page itself doesn't scroll or zoom
+    window.addEventListener('wheel', handleWheel, { passive: false });
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('pointermove', handlePointerMove);
       window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCopy);
       window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('wheel', handleWheel);
+    };
+  }, [handlePointerMove, handleKeyDown, handleKeyUp, handleCopy, handlePaste, handleWheel]);
+
+  useEffect(() => {
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Tell the others what we're doing; the anchor only matters until a line is started
+  useEffect(() => {
+    sendPresence({
+      mode: mode === AppMode.TYPING ? 'TYPING' : 'NAVIGATION',
+      activeLineId,
+      anchor: activeLineId ? null : anchorPoint,
+      isTyping,
+    });
+  }, [mode, activeLineId, anchorPoint, isTyping, sendPresence]);
+
+  useEffect(() => () => {
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+  }, []);
+
+  // Keep the camera on whoever we follow as they move, at our own zoom
+  const centerOn = (point: Point) => {
+    const camera = cameraRef.current;
+    setCamera({ ...camera, x: viewport.width / 2 - point.x * camera.zoom, y: viewport.height / 2 - point.y * camera.zoom });
+  };
+
+  const followedCursor = followedUserId ? remoteUsers[followedUserId]?.cursor : undefined;
+  useEffect(() => {
+    if (!followedUserId) return;
+    if (followedCursor) centerOn(followedCursor);
+    else setFollowedUserId(null); // They left
+  }, [followedUserId, followedCursor]);
+
+  // Leaving navigation mode ends any panning
+  useEffect(() => {
+    if (mode !== AppMode.NAVIGATION) {
+      setIsSpaceHeld(false);
+    }
+  }, [mode]);
+
+
+  // --- Selection Transforms for Navigation ---
+  const selectionGestureRef = useRef<SelectionGesture | null>(null);
+  // Moves, turns and scales are previewed locally, then sent as one op when let go,
+  // so a drag is one entry in the room's history rather than one per pointer event
+  const [transformPreview, setTransformPreview] = useState<LineTransform[] | null>(null);
+  // Rubber band being dragged out on the stage; base is what was selected before it
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point; base: Set<string> } | null>(null);
+
+  const startSelectionGesture = (kind: SelectionGesture['kind'], pointer: Point, selection: Set<string>) => {
+    const own = lines.filter(l => selection.has(l.id) && canEditLine(l));
+    const bounds = getLinesBounds(own);
+    if (!bounds) return;
+    selectionGestureRef.current = {
+      kind,
+      start: pointer,
+      center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+      lines: own,
     };
-  }, [handleMouseMove, handleKeyDown, handlePaste]);
+  };
 
+  const getGroupTransform = (gesture: SelectionGesture, pointer: Point, snap: boolean): GroupTransform => {
+    const { kind, start, center } = gesture;
+    const transform = { center, angle: 0, scale: 1, offset: { x: 0, y: 0 } };
+    if (kind === 'move') {
+      return { ...transform, offset: { x: pointer.x - start.x, y: pointer.y - start.y } };
+    }
+    if (kind === 'rotate') {
+      const angle = (Math.atan2(pointer.y - center.y, pointer.x - center.x)
+        - Math.atan2(start.y - center.y, start.x - center.x)) * 180 / Math.PI;
+      return { ...transform, angle: snap ? Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP : angle };
+    }
+    const from = Math.hypot(start.x - center.x, start.y - center.y);
+    const to = Math.hypot(pointer.x - center.x, pointer.y - center.y);
+    return { ...transform, scale: from > 0 ? Math.max(MIN_SELECTION_SCALE, to / from) : 1 };
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
 
-  // --- Dragging Logic for Navigation ---
-  const [draggingLineId, setDraggingLineId] = useState<string | null>(null);
-  const [dragOffset, setDragOffset] = useState<Point>({ x: 0, y: 0 });
+  const handleLinePointerDown = (e: React.PointerEvent, lineId: string) => {
+    // Let the stage start panning instead
+    if (mode === AppMode.NAVIGATION && isSpaceHeld) return;
 
-  const handleLineMouseDown = (e: React.MouseEvent, lineId: string) => {
     e.stopPropagation(); // Prevent stage click
+    setLineMenu(null);
+
+    // Touch and pens have no right-click or easy double-click: a long press opens a menu instead
+    if (e.pointerType !== 'mouse' && canEditLine(lines.find(l => l.id === lineId))) {
+      const start = { x: e.clientX, y: e.clientY };
+      cancelLongPress();
+      longPressRef.current = {
+        start,
+        timer: window.setTimeout(() => {
+          longPressRef.current = null;
+          selectionGestureRef.current = null; // Held still, so nothing was dragged
+          setLineMenu({ lineId, ...start });
+        }, LONG_PRESS_MS),
+      };
+    }
 
     if (mode === AppMode.NAVIGATION) {
-        // Select logic
-        setSelectedLineIds(prev => {
-          const newSet = new Set(prev);
-          if (e.shiftKey) {
-            if (newSet.has(lineId)) newSet.delete(lineId);
-            else newSet.add(lineId);
-          } else {
-            newSet.clear();
-            newSet.add(lineId);
-          }
-          return newSet;
-        });
+        // Select logic; clicking a line that's already selected keeps the selection to drag all of it
+        const selection = new Set<string>(selectedLineIds);
+        if (e.shiftKey) {
+          if (selection.has(lineId)) selection.delete(lineId);
+          else selection.add(lineId);
+        } else if (!selection.has(lineId)) {
+          selection.clear();
+          selection.add(lineId);
+        }
+        setSelectedLineIds(selection);
 
-        // Start Drag - only for own lines
+        // Start Drag - only own lines move
         const line = lines.find(l => l.id === lineId);
-        if (line && line.userId === currentUser?.id) {
-          setDraggingLineId(lineId);
-          setDragOffset({
-            x: e.clientX - line.x,
-            y: e.clientY - line.y
-          });
+        if (canEditLine(line) && selection.has(lineId)) {
+          startSelectionGesture('move', toWorld({ x: e.clientX, y: e.clientY }), selection);
         }
     } else if (mode === AppMode.TYPING) {
-        // In typing mode, clicking a line selects it to continue typing (only own lines)
+        // In typing mode, clicking a line puts the caret there to continue typing (only own lines)
         const line = lines.find(l => l.id === lineId);
-        if (line && line.userId === currentUser?.id) {
+        if (canEditLine(line)) {
+          const pointer = toWorld({ x: e.clientX, y: e.clientY });
           setActiveLineId(lineId);
           setAnchorPoint(null); // Clear anchor when continuing an existing line
+          moveCaret(line, getCaretIndexAt(line, { x: pointer.x - line.x, y: pointer.y - line.y }));
         }
     }
   };
 
-  const handleStageMouseDown = (e: React.MouseEvent) => {
+  // Every pointer on the canvas is tracked before the lines or stage see it,
+  // so a second finger turns whatever the first one started into a pinch
+  const handlePointerDownCapture = (e: React.PointerEvent) => {
+    lastPointerTypeRef.current = e.pointerType;
+    const target = e.target as Node;
+    if (target !== e.currentTarget && !svgRef.current?.contains(target)) return; // A panel or button
+
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size !== 2) return;
+
+    const [a, b] = [...pointers.values()];
+    pinchRef.current = { distance: Math.hypot(a.x - b.x, a.y - b.y), center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+    setFollowedUserId(null);
+    // Drop what the first finger started, apart from anchors and carets it already placed
+    cancelLongPress();
+    isDrawingStrokeRef.current = false;
+    draggingHandleRef.current = null;
+    selectionGestureRef.current = null;
+    setTransformPreview(null);
+    setMarquee(null);
+    panStartRef.current = null;
+    e.stopPropagation();
+  };
+
+  // Two fingers: pan with their midpoint and zoom with their spread
+  const updatePinch = (e: React.PointerEvent): boolean => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return false;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const pinch = pinchRef.current;
+    if (!pinch || pointers.size < 2) return false;
+    const [a, b] = [...pointers.values()];
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const camera = cameraRef.current;
+    const panned = { ...camera, x: camera.x + center.x - pinch.center.x, y: camera.y + center.y - pinch.center.y };
+    setCamera(zoomAt(panned, center, pinch.distance > 0 ? distance / pinch.distance : 1));
+    pinchRef.current = { distance, center };
+    return true;
+  };
+
+  const releasePointer = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    pointers.delete(e.pointerId);
+    if (pointers.size < 2) pinchRef.current = null;
+  };
+
+  // Lines drawn on the 2D canvas have no elements of their own to take pointer events
+  const getCanvasLineAt = (e: React.MouseEvent): string | null => {
+    if (!drawsOnCanvas) return null;
+    const hit = lineIndexRef.current.hitTest(toWorld({ x: e.clientX, y: e.clientY }), LINE_HIT_TOLERANCE);
+    return hit?.id ?? null;
+  };
+
+  const handleStagePointerDown = (e: React.PointerEvent) => {
+    setLineMenu(null);
+    const canvasLineId = getCanvasLineAt(e);
+    if (canvasLineId && !(mode === AppMode.NAVIGATION && isSpaceHeld)) {
+      handleLinePointerDown(e, canvasLineId);
+      return;
+    }
+    if (mode === AppMode.NAVIGATION && isSpaceHeld) {
+      panStartRef.current = { pointer: { x: e.clientX, y: e.clientY }, camera: cameraRef.current };
+      setIsPanning(true);
+      setFollowedUserId(null);
+      return;
+    }
+
     if (mode === AppMode.TYPING) {
       // Click on background -> Set anchor point for new line
+      const pointer = toWorld({ x: e.clientX, y: e.clientY });
       setActiveLineId(null);
-      setAnchorPoint({ x: e.clientX, y: e.clientY });
-      setTargetPos({ x: e.clientX, y: e.clientY });
+      setAnchorPoint(pointer);
+      targetStore.set(pointer);
+      setLineGuide(null);
+
+      // Some layouts lay out their shape from here
+      if (layoutMode === 'stroke') {
+        isDrawingStrokeRef.current = true;
+        setStroke([pointer]);
+      } else if (layoutMode === 'curve') {
+        setCurve(createCurveHandles(pointer, pointer));
+      }
     } else if (mode === AppMode.NAVIGATION) {
-      // Click on background -> Deselect all
-      setSelectedLineIds(new Set());
+      // Drag on background -> Select lines in a rubber band; Shift adds to the selection
+      const pointer = toWorld({ x: e.clientX, y: e.clientY });
+      const base = new Set<string>(e.shiftKey ? selectedLineIds : []);
+      setSelectedLineIds(base);
+      setMarquee({ start: pointer, end: pointer, base });
     }
   };
 
-  const handleStageMouseMove = (e: React.MouseEvent) => {
-    if (draggingLineId && mode === AppMode.NAVIGATION) {
-      const line = lines.find(l => l.id === draggingLineId);
-      if (line && line.userId === currentUser?.id) {
-        const updatedLine = {
-          ...line,
-          x: e.clientX - dragOffset.x,
-          y: e.clientY - dragOffset.y
-        };
-        const newLines = lines.map(l => 
-          l.id === draggingLineId ? updatedLine : l
-        );
-        setLines(newLines);
-        updateLine(updatedLine);
+  const handleStagePointerMove = (e: React.PointerEvent) => {
+    if (updatePinch(e) || pinchRef.current) return;
+
+    const longPress = longPressRef.current;
+    if (longPress && Math.hypot(e.clientX - longPress.start.x, e.clientY - longPress.start.y) > LONG_PRESS_SLOP) {
+      cancelLongPress();
+    }
+
+    if (isDrawingStrokeRef.current) {
+      const pointer = toWorld({ x: e.clientX, y: e.clientY });
+      const last = stroke[stroke.length - 1];
+      if (!last || Math.hypot(pointer.x - last.x, pointer.y - last.y) * camera.zoom >= STROKE_MIN_STEP) {
+        setStroke([...stroke, pointer]);
       }
+      return;
+    }
+
+    const handle = draggingHandleRef.current;
+    if (handle && curve) {
+      const next = { ...curve, [handle]: toWorld({ x: e.clientX, y: e.clientY }) };
+      setCurve(next);
+      if (handle === 'start' && !activeLineId) setAnchorPoint(next.start);
+      // A line already typed along the curve keeps following it
+      if (lineGuide && lineGuide.lineId === activeLineId) {
+        const guide = getLayoutGuide('curve', next.start, next.start, { stroke: [], curve: next });
+        if (guide) setLineGuide({ ...lineGuide, guide });
+      }
+      return;
+    }
+
+    if (marquee) {
+      const end = toWorld({ x: e.clientX, y: e.clientY });
+      const minX = Math.min(marquee.start.x, end.x);
+      const maxX = Math.max(marquee.start.x, end.x);
+      const minY = Math.min(marquee.start.y, end.y);
+      const maxY = Math.max(marquee.start.y, end.y);
+      const selection = new Set(marquee.base);
+      const index = lineIndexRef.current;
+      index.query({ minX, minY, maxX, maxY }).forEach(id => {
+        const line = index.get(id);
+        if (line && getCharPositions(line).some(p => p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY)) {
+          selection.add(line.id);
+        }
+      });
+      setMarquee({ ...marquee, end });
+      setSelectedLineIds(selection);
+      return;
+    }
+
+    const gesture = selectionGestureRef.current;
+    if (gesture && mode === AppMode.NAVIGATION) {
+      const transform = getGroupTransform(gesture, toWorld({ x: e.clientX, y: e.clientY }), e.shiftKey);
+      setTransformPreview(gesture.lines.map(line => getLineTransform(line, transform)));
     }
   };
 
-  const handleStageMouseUp = () => {
-    setDraggingLineId(null);
+  const handleStagePointerUp = (e: React.PointerEvent) => {
+    const wasPinching = !!pinchRef.current;
+    releasePointer(e);
+    cancelLongPress();
+    if (wasPinching) return; // The other finger is still down, or just lifted after a pinch
+    // Clicking the canvas moves focus away from the text input; tapping it brings up the on-screen keyboard
+    if (mode === AppMode.TYPING) textInputRef.current?.focus({ preventScroll: true });
+    isDrawingStrokeRef.current = false;
+    draggingHandleRef.current = null;
+    if (transformPreview) transformLines(transformPreview);
+    selectionGestureRef.current = null;
+    setTransformPreview(null);
+    setMarquee(null);
+    panStartRef.current = null;
+    setIsPanning(false);
   };
 
+  // --- Zoom to Fit ---
+  const handleZoomToFit = useCallback(() => {
+    setFollowedUserId(null);
+    fitToBounds(getLinesBounds(linesRef.current));
+  }, [fitToBounds]);
+
   const handleLineDoubleClick = (e: React.MouseEvent, lineId: string) => {
     e.stopPropagation();
+    editLine(lineId);
+  };
+
+  const handleStageDoubleClick = (e: React.MouseEvent) => {
+    const canvasLineId = getCanvasLineAt(e);
+    if (canvasLineId) handleLineDoubleClick(e, canvasLineId);
+  };
+
+  // Continue typing at the end of a line
+  const editLine = (lineId: string) => {
     const line = lines.find(l => l.id === lineId);
     // Only allow editing own lines
-    if (line && line.userId === currentUser?.id) {
+    if (canEditLine(line)) {
       setMode(AppMode.TYPING);
       setActiveLineId(lineId);
       setAnchorPoint(null); // Clear anchor when continuing an existing line
+      moveCaret(line, line.chars.length);
       setSelectedLineIds(new Set());
     }
   };
 
-  // --- Save Canvas as PNG ---
-  const svgRef = useRef<SVGSVGElement>(null);
+  // --- Export ---
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [pngScale, setPngScale] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Exports cover every line, not just what's on screen
+  const runExport = useCallback((doExport: (lines: Line[]) => Promise<void>) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    doExport(linesRef.current)
+      .catch(e => console.error('Error exporting canvas:', e))
+      .finally(() => setIsExporting(false));
+  }, []);
 
-  const handleSave = useCallback(() => {
-    if (!svgRef.current) return;
+  const handleExportSvg = useCallback((animate: boolean) => {
+    runExport(lines => exportSvg(lines, { animate }));
+  }, [runExport]);
+
+  const handleExportPng = useCallback(() => {
+    runExport(lines => exportPng(lines, pngScale));
+  }, [runExport, pngScale]);
+
+  const handleExportDocument = useCallback(() => {
+    setShowExportMenu(false);
+    exportDocument(linesRef.current, roomId);
+  }, [roomId]);
+
+  // --- Document Import ---
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<TypeDrawDocument | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImportFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should still fire change
+    if (!file) return;
+
+    file.text()
+      .then(text => {
+        setPendingImport(parseDocument(text));
+        setImportError(null);
+      })
+      .catch(err => {
+        console.error('Error reading document:', err);
+        setPendingImport(null);
+        setImportError(err instanceof ProtocolError ? err.message : 'Could not read the file');
+      });
+  }, []);
 
-    const svgElement = svgRef.current;
-    const rect = svgElement.getBoundingClientRect();
-    
-    // Create a new clean SVG with only the text content
-    const cleanSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-    cleanSvg.setAttribute('width', rect.width.toString());
-    cleanSvg.setAttribute('height', rect.height.toString());
-    cleanSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-    
-    // Add white background
-    const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    bgRect.setAttribute('width', '100%');
-    bgRect.setAttribute('height', '100%');
-    bgRect.setAttribute('fill', 'white');
-    cleanSvg.appendChild(bgRect);
-
-    // Only copy line groups (marked with data-line-id)
-    const lineGroups = svgElement.querySelectorAll('[data-line-id]');
-    lineGroups.forEach(group => {
-      const clonedGroup = group.cloneNode(true) as SVGGElement;
-      // Remove hit area and selection highlight paths, keep only text
-      const pathsToRemove = clonedGroup.querySelectorAll('path');
-      pathsToRemove.forEach(p => p.remove());
-      cleanSvg.appendChild(clonedGroup);
+  // Merge adds the document's lines; replace first removes what the importer may remove
+  const handleImport = useCallback((replace: boolean) => {
+    const doc = pendingImport;
+    setPendingImport(null);
+    const user = currentUserRef.current;
+    if (!doc || user?.role === 'viewer') return;
+
+    const imported = prepareImport(doc.lines, userId, createId);
+    groupHistory(() => {
+      if (replace && user?.role === 'owner') {
+        clearAll();
+      } else if (replace) {
+        deleteLines(linesRef.current.filter(line => line.userId === userId).map(line => line.id));
+      }
+      imported.forEach(addLine);
     });
+    linesRef.current = getLines();
 
-    // Convert to data URL
-    const svgData = new XMLSerializer().serializeToString(cleanSvg);
-    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-
-    // Create canvas and draw
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = rect.width;
-      canvas.height = rect.height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = 'white';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(img, 0, 0);
-        
-        // Add date stamp in bottom-right corner
-        const now = new Date();
-        const dateStr = now.toLocaleDateString('en-US', { 
-          year: 'numeric', 
-          month: 'short', 
-          day: 'numeric' 
-        });
-        ctx.font = '12px sans-serif';
-        ctx.fillStyle = '#9ca3af'; // gray-400
-        ctx.textAlign = 'right';
-        ctx.textBaseline = 'bottom';
-        ctx.fillText(dateStr, canvas.width - 16, canvas.height - 12);
-        
-        // Download
-        const link = document.createElement('a');
-        link.download = `type-draw-${Date.now()}.png`;
-        link.href = canvas.toDataURL('image/png');
-        link.click();
-      }
-      URL.revokeObjectURL(url);
-    };
-    img.src = url;
+    setActiveLineId(null);
+    setAnchorPoint(null);
+    setSelectedLineIds(new Set(imported.map(line => line.id)));
+    fitToBounds(getLinesBounds(imported));
+  }, [pendingImport, userId, groupHistory, clearAll, deleteLines, addLine, getLines, fitToBounds]);
+
+  // --- Layout Mode ---
+  // A different layout starts a new line
+  const handleLayoutModeChange = useCallback((next: LayoutMode) => {
+    setLayoutMode(next);
+    setActiveLineId(null);
+    resetLayout();
   }, []);
 
+  // --- Share Link ---
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleShare = useCallback(() => {
+    navigator.clipboard.writeText(getRoomUrl(roomId))
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(e => console.error('Error copying link:', e));
+  }, [roomId]);
+
+  const handleCloseTimeline = useCallback(() => setShowTimeline(false), []);
+
   // --- Clear Modal State ---
   const [showClearModal, setShowClearModal] = useState(false);
 
   // --- Animation State ---
   const [isAnimating, setIsAnimating] = useState(false);
+  // The flow animation is SVG's own, so it always draws lines as SVG
+  const drawsOnCanvas = USE_CANVAS_RENDERER && !isAnimating;
 
   const handleClearMyWork = useCallback(() => {
-    const user = currentUserRef.current;
-    if (!user) return;
+    if (currentUserRef.current?.role === 'viewer') return;
 
     // Get all line IDs that belong to the current user
     const userLineIds = linesRef.current
-      .filter(line => line.userId === user.id)
+      .filter(line => line.userId === userId)
       .map(line => line.id);
 
     if (userLineIds.length > 0) {
-      // Remove user's lines from local state
-      const remainingLines = linesRef.current.filter(line => line.userId !== user.id);
-      setLines(remainingLines);
       deleteLines(userLineIds);
     }
     
@@ -517,34 +1282,28 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
     setAnchorPoint(null);
     setSelectedLineIds(new Set());
     setShowClearModal(false);
-  }, [setLines, deleteLines]);
+  }, [userId, deleteLines]);
 
   const handleClearAll = useCallback(() => {
-    const allLineIds = linesRef.current.map(line => line.id);
-    
-    if (allLineIds.length > 0) {
-      setLines([]);
-      deleteLines(allLineIds);
+    // Only the room owner may wipe everyone's lines; the server enforces this too
+    if (currentUserRef.current?.role !== 'owner') return;
+
+    if (linesRef.current.length > 0) {
+      clearAll();
     }
     
     setActiveLineId(null);
     setAnchorPoint(null);
     setSelectedLineIds(new Set());
     setShowClearModal(false);
-  }, [setLines, deleteLines]);
+  }, [clearAll]);
 
   // --- Right-click to Erase Line ---
-  const handleLineContextMenu = useCallback((e: React.MouseEvent, lineId: string) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    const user = currentUserRef.current;
+  const eraseLine = useCallback((lineId: string) => {
     const line = linesRef.current.find(l => l.id === lineId);
     
     // Only allow erasing own lines
-    if (line && user && line.userId === user.id) {
-      const newLines = linesRef.current.filter(l => l.id !== lineId);
-      setLines(newLines);
+    if (canEditLine(line)) {
       deleteLines([lineId]);
       
       if (activeLineIdRef.current === lineId) {
@@ -556,54 +1315,137 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
         return newSet;
       });
     }
-  }, [setLines, deleteLines]);
+  }, [deleteLines, userId]);
+
+  const handleLineContextMenu = useCallback((e: React.MouseEvent, lineId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    // Touch browsers fire this on a long press too, which opens the line menu instead
+    if (lastPointerTypeRef.current !== 'mouse') return;
+    eraseLine(lineId);
+  }, [eraseLine]);
+
+  const handleStageContextMenu = (e: React.MouseEvent) => {
+    const canvasLineId = getCanvasLineAt(e);
+    if (canvasLineId) handleLineContextMenu(e, canvasLineId);
+  };
 
   // --- Rendering ---
   
-  const head = getActiveLineHead();
+  // Overlays are drawn in screen space so they keep their size at any zoom. Without a
+  // line or anchor the head is the target as of this render, since it's only for the IME.
+  const lineHead = getActiveLineHead();
+  const head = toScreen(lineHead);
+  const anchor = anchorPoint && toScreen(anchorPoint);
+
+  // What's ahead along the active line's guide, or the guide a new line would take from the target
+  const activeGuide = lineGuide && lineGuide.lineId === activeLineId ? lineGuide : null;
+  let guidePoints: Point[] | null = null;
+  let getPendingGuidePoints: ((target: Point) => Point[] | null) | null = null;
+  if (mode === AppMode.TYPING && activeGuide) {
+    const activeLine = lines.find(l => l.id === activeLineId);
+    const typed = activeLine ? getTextAdvance(activeLine.chars.map(c => c.value), activeLine) : 0;
+    guidePoints = getGuidePoints(activeGuide.guide, typed + GUIDE_PREVIEW_LENGTH);
+  } else if (mode === AppMode.TYPING && !activeLineId && (anchorPoint || stroke.length > 0 || curve)) {
+    getPendingGuidePoints = target =>
+      getLayoutGuide(layoutMode, anchorPoint ?? target, target, { stroke, curve }, GUIDE_PREVIEW_LENGTH)?.points ?? null;
+  }
+  const showCurveHandles = mode === AppMode.TYPING && layoutMode === 'curve' && curve && (!activeLineId || activeGuide);
+
+  // Caret partway through the active line, across the line's direction there
+  let caretEnds: [Point, Point] | null = null;
+  const caretLine = mode === AppMode.TYPING && caret && caret.lineId === activeLineId
+    ? lines.find(l => l.id === caret.lineId)
+    : undefined;
+  if (caretLine && caret && caret.index < caretLine.chars.length) {
+    const { point, angle } = getCaretPlacement(caretLine, caret.index);
+    const center = toScreen({ x: caretLine.x + point.x, y: caretLine.y + point.y });
+    const radians = angle * Math.PI / 180;
+    const dx = -Math.sin(radians) * CARET_HALF_LENGTH;
+    const dy = Math.cos(radians) * CARET_HALF_LENGTH;
+    caretEnds = [{ x: center.x - dx, y: center.y - dy }, { x: center.x + dx, y: center.y + dy }];
+  }
+
+  // Lines as drawn, with a move, turn or scale in progress shown before it's sent
+  const shownLines: Line[] = useMemo(() => {
+    if (!transformPreview) return lines;
+    const previews = new Map<string, LineTransform>(transformPreview.map(t => [t.lineId, t]));
+    return lines.map(line => {
+      const preview = previews.get(line.id);
+      return preview ? applyLineTransform(line, preview) : line;
+    });
+  }, [lines, transformPreview]);
+  const lineIndex = useMemo(() => lineIndexRef.current.withLines(shownLines), [shownLines]);
+  // Handed to event handlers once committed, so a render React throws away can't leave them behind
+  useLayoutEffect(() => {
+    lineIndexRef.current = lineIndex;
+    lineHandlersRef.current = {
+      onPointerDown: handleLinePointerDown,
+      onDoubleClick: handleLineDoubleClick,
+      onContextMenu: handleLineContextMenu,
+    };
+  });
+
+  // Box around the selected lines the user can transform, with its handles
+  let selectionBox: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+  if (mode === AppMode.NAVIGATION && !marquee && selectedLineIds.size > 0) {
+    const bounds = getLinesBounds(shownLines.filter(l => selectedLineIds.has(l.id) && canEditLine(l)));
+    if (bounds) {
+      const topLeft = toScreen({ x: bounds.minX, y: bounds.minY });
+      const bottomRight = toScreen({ x: bounds.maxX, y: bounds.maxY });
+      const pad = 8; // Room around the letters, which extend past their centers
+      selectionBox = { minX: topLeft.x - pad, minY: topLeft.y - pad, maxX: bottomRight.x + pad, maxY: bottomRight.y + pad };
+    }
+  }
+  const marqueeStart = marquee && toScreen(marquee.start);
+  const marqueeEnd = marquee && toScreen(marquee.end);
+
+  const stageCursor = mode === AppMode.NAVIGATION && isSpaceHeld
+    ? (isPanning ? 'cursor-grabbing' : 'cursor-grab')
+    : 'cursor-crosshair';
 
   return (
     <div 
-      className="w-full h-screen bg-white overflow-hidden cursor-crosshair"
-      onMouseDown={handleStageMouseDown}
-      onMouseUp={handleStageMouseUp}
-      onMouseMove={handleStageMouseMove}
+      className={`w-full h-screen bg-white overflow-hidden touch-none ${stageCursor}`}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerDown={handleStagePointerDown}
+      onPointerUp={handleStagePointerUp}
+      onPointerCancel={handleStagePointerUp}
+      onPointerMove={handleStagePointerMove}
+      onDoubleClick={handleStageDoubleClick}
+      onContextMenu={handleStageContextMenu}
     >
-      <svg ref={svgRef} className="w-full h-full pointer-events-none">
-        {/* Draw Guide Line in Typing Mode - from line head to cursor */}
-        {mode === AppMode.TYPING && activeLineId && (
-          <line 
-            x1={head.x} 
-            y1={head.y} 
-            x2={targetPos.x} 
-            y2={targetPos.y} 
-            stroke={currentUser?.color || '#ff0000'} 
-            strokeWidth="1" 
-            strokeOpacity="0.2"
-          />
-        )}
-        
-        {/* Guide Line from Anchor to Cursor - shows the path for new line */}
-        {mode === AppMode.TYPING && !activeLineId && anchorPoint && (
-          <line 
-            x1={anchorPoint.x} 
-            y1={anchorPoint.y} 
-            x2={targetPos.x} 
-            y2={targetPos.y} 
-            stroke={currentUser?.color || '#ff0000'} 
-            strokeWidth="1.5" 
-            strokeOpacity="0.3"
-            strokeDasharray="4 4"
+      {drawsOnCanvas && (
+        <LinesCanvas
+          lines={shownLines}
+          index={lineIndex}
+          camera={camera}
+          viewport={viewport}
+          selectedLineIds={selectedLineIds}
+          isNavigating={mode === AppMode.NAVIGATION}
+        />
+      )}
+      <svg ref={svgRef} className="relative w-full h-full pointer-events-none">
+        {/* Caret - where typing and deleting happen when it's not the end of the line */}
+        {caretEnds && (
+          <line
+            x1={caretEnds[0].x}
+            y1={caretEnds[0].y}
+            x2={caretEnds[1].x}
+            y2={caretEnds[1].y}
+            stroke={currentUser?.color || '#000000'}
+            strokeWidth="2"
+            className="animate-pulse"
           />
         )}
-        
+
         {/* Anchor Point Indicator - fixed starting point for new line */}
-        {mode === AppMode.TYPING && !activeLineId && anchorPoint && (
+        {mode === AppMode.TYPING && !activeLineId && anchor && (
           <g>
             {/* Small square anchor marker */}
             <rect 
-              x={anchorPoint.x - 6} 
-              y={anchorPoint.y - 6} 
+              x={anchor.x - 6} 
+              y={anchor.y - 6} 
               width={12} 
               height={12} 
               fill={currentUser?.color || 'orange'}
@@ -613,121 +1455,230 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
             />
             {/* Center dot */}
             <circle 
-              cx={anchorPoint.x} 
-              cy={anchorPoint.y} 
+              cx={anchor.x} 
+              cy={anchor.y} 
               r={3} 
               fill={currentUser?.color || 'orange'} 
             />
           </g>
         )}
         
-        {/* Target Cursor Indicator - shows where typing will go towards */}
-        {mode === AppMode.TYPING && (activeLineId || anchorPoint) && (
-          <circle 
-            cx={targetPos.x} 
-            cy={targetPos.y} 
-            r={8} 
-            fill={currentUser?.color || 'orange'} 
+        {/* Guides to the target and the target itself, which follow the pointer */}
+        <PointerOverlay
+          target={targetStore}
+          camera={camera}
+          color={currentUser?.color}
+          lineHead={mode === AppMode.TYPING && activeLineId && !activeGuide && !caretEnds ? lineHead : null}
+          anchor={mode === AppMode.TYPING && layoutMode === 'follow' && !activeLineId ? anchorPoint : null}
+          showTarget={mode === AppMode.TYPING && !!(activeLineId || anchorPoint)}
+          getPendingGuide={getPendingGuidePoints}
+        />
+
+        {/* Curve control points, dragged to reshape the curve */}
+        {showCurveHandles && (
+          <g>
+            {[[curve.start, curve.control1], [curve.end, curve.control2]].map(([from, to], i) => {
+              const a = toScreen(from);
+              const b = toScreen(to);
+              return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#9ca3af" strokeWidth="1" />;
+            })}
+            {(Object.keys(curve) as (keyof CurveHandles)[]).map(handle => {
+              const p = toScreen(curve[handle]);
+              const isEndpoint = handle === 'start' || handle === 'end';
+              return (
+                <circle
+                  key={handle}
+                  cx={p.x}
+                  cy={p.y}
+                  r={isEndpoint ? 6 : 5}
+                  fill={isEndpoint ? (currentUser?.color || 'orange') : 'white'}
+                  stroke={currentUser?.color || 'orange'}
+                  strokeWidth="2"
+                  className="pointer-events-auto cursor-move"
+                  onPointerDown={(e) => {
+                    e.stopPropagation(); // Not a click on the canvas
+                    draggingHandleRef.current = handle;
+                  }}
+                />
+              );
+            })}
+          </g>
+        )}
+
+        {/* Rubber band selection */}
+        {marqueeStart && marqueeEnd && (
+          <rect
+            x={Math.min(marqueeStart.x, marqueeEnd.x)}
+            y={Math.min(marqueeStart.y, marqueeEnd.y)}
+            width={Math.abs(marqueeEnd.x - marqueeStart.x)}
+            height={Math.abs(marqueeEnd.y - marqueeStart.y)}
+            fill="#3b82f6"
+            fillOpacity="0.05"
+            stroke="#3b82f6"
+            strokeWidth="1"
+            strokeDasharray="4 4"
           />
         )}
 
+        {/* Selection box: drag a corner to scale, the top handle to rotate (Shift snaps to 15°) */}
+        {selectionBox && (
+          <g>
+            <rect
+              x={selectionBox.minX}
+              y={selectionBox.minY}
+              width={selectionBox.maxX - selectionBox.minX}
+              height={selectionBox.maxY - selectionBox.minY}
+              fill="none"
+              stroke="#9ca3af"
+              strokeWidth="1"
+              strokeDasharray="4 4"
+            />
+            <line
+              x1={(selectionBox.minX + selectionBox.maxX) / 2}
+              y1={selectionBox.minY}
+              x2={(selectionBox.minX + selectionBox.maxX) / 2}
+              y2={selectionBox.minY - ROTATE_HANDLE_OFFSET}
+              stroke="#9ca3af"
+              strokeWidth="1"
+            />
+            <circle
+              cx={(selectionBox.minX + selectionBox.maxX) / 2}
+              cy={selectionBox.minY - ROTATE_HANDLE_OFFSET}
+              r={5}
+              fill="white"
+              stroke="#6b7280"
+              strokeWidth="1.5"
+              className="pointer-events-auto cursor-grab"
+              onPointerDown={(e) => {
+                e.stopPropagation(); // Not a click on the canvas
+                startSelectionGesture('rotate', toWorld({ x: e.clientX, y: e.clientY }), selectedLineIds);
+              }}
+            />
+            {[
+              [selectionBox.minX, selectionBox.minY, 'cursor-nwse-resize'],
+              [selectionBox.maxX, selectionBox.minY, 'cursor-nesw-resize'],
+              [selectionBox.minX, selectionBox.maxY, 'cursor-nesw-resize'],
+              [selectionBox.maxX, selectionBox.maxY, 'cursor-nwse-resize'],
+            ].map(([x, y, cursor], i) => (
+              <rect
+                key={i}
+                x={(x as number) - 4}
+                y={(y as number) - 4}
+                width={8}
+                height={8}
+                fill="white"
+                stroke="#6b7280"
+                strokeWidth="1.5"
+                className={`pointer-events-auto ${cursor}`}
+                onPointerDown={(e) => {
+                  e.stopPropagation(); // Not a click on the canvas
+                  startSelectionGesture('scale', toWorld({ x: e.clientX, y: e.clientY }), selectedLineIds);
+                }}
+              />
+            ))}
+          </g>
+        )}
+
+        {/* Text being composed in an IME, not yet part of the line */}
+        {mode === AppMode.TYPING && composition && (
+          <text
+            x={head.x}
+            y={head.y - (currentUser?.fontSize || 16) * camera.zoom}
+            fill={currentUser?.color || '#000000'}
+            fillOpacity="0.6"
+            fontSize={(currentUser?.fontSize || 16) * camera.zoom}
+            fontFamily={currentUser?.fontFamily}
+            dominantBaseline="middle"
+            textDecoration="underline"
+          >
+            {composition}
+          </text>
+        )}
+
         {/* Remote Users' Cursors */}
-        <RemoteCursors users={remoteUsers} />
-
-        {/* Draw Lines */}
-        {lines.map(line => {
-          const isSelected = selectedLineIds.has(line.id);
-          const isOwnLine = line.userId === currentUser?.id;
-          
-          return (
-            <g 
-              key={line.id}
-              data-line-id={line.id}
-              transform={`translate(${line.x}, ${line.y})`}
-              className={`pointer-events-auto select-none transition-opacity ${mode === AppMode.NAVIGATION && isOwnLine ? 'cursor-move hover:opacity-70' : ''}`}
-              onMouseDown={(e) => handleLineMouseDown(e, line.id)}
-              onDoubleClick={(e) => handleLineDoubleClick(e, line.id)}
-              onContextMenu={(e) => handleLineContextMenu(e, line.id)}
-            >
-              {/* Invisible Hit Area for easier selection */}
-              {mode === AppMode.NAVIGATION && (
-                 <path 
-                   d={`M${line.chars.map(c => `${c.x},${c.y}`).join(' L')}`} 
-                   stroke="transparent" 
-                   strokeWidth="20" 
-                   fill="none" 
-                 />
-              )}
-              
-              {/* Selection Highlight */}
-              {isSelected && mode === AppMode.NAVIGATION && (
-                 <path 
-                   d={line.chars.length > 1 ? `M${line.chars.map(c => `${c.x},${c.y}`).join(' L')}` : ''} 
-                   stroke="#e5e7eb" 
-                   strokeWidth="18" 
-                   strokeLinecap="round"
-                   fill="none" 
-                 />
-              )}
-
-              {/* Text - uses line's color, font, and size */}
-              {isAnimating && line.chars.length >= 2 ? (
-                <>
-                  {/* Define path for textPath animation */}
-                  <defs>
-                    <path
-                      id={`path-${line.id}`}
-                      d={getLinePath(line)}
-                      fill="none"
-                    />
-                  </defs>
-                  {/* Animated text along path - duplicated for seamless loop */}
-                  <text
-                    fill={line.color}
-                    fontSize={line.fontSize}
-                    fontFamily={line.fontFamily}
-                    dominantBaseline="middle"
-                    style={{ letterSpacing: `${LETTER_SPACING * 0.6}px` }}
-                  >
-                    <textPath
-                      href={`#path-${line.id}`}
-                      startOffset="0%"
-                    >
-                      <animate
-                        attributeName="startOffset"
-                        from="-50%"
-                        to="0%"
-                        dur={`${Math.max(2, getLineLength(line) / 60)}s`}
-                        repeatCount="indefinite"
-                      />
-                      {/* Duplicate text for seamless looping */}
-                      {line.chars.map(c => c.value).join('') + '   ' + line.chars.map(c => c.value).join('')}
-                    </textPath>
-                  </text>
-                </>
-              ) : (
-                line.chars.map((char) => (
-                  <text
-                    key={char.id}
-                    x={char.x}
-                    y={char.y}
-                    textAnchor="middle"
-                    dominantBaseline="middle"
-                    fill={line.color}
-                    fontSize={line.fontSize}
-                    fontFamily={line.fontFamily}
-                  >
-                    {char.value}
-                  </text>
-                ))
-              )}
-            </g>
-          );
-        })}
+        <RemoteCursors users={remoteUsers} lines={lines} camera={camera} />
+
+        {/* Layout guide the next letters are placed along */}
+        {guidePoints && guidePoints.length >= 2 && (
+          <GuidePath points={guidePoints} camera={camera} color={currentUser?.color || '#ff0000'} />
+        )}
+
+        {/* Draw Lines, in world space */}
+        {!drawsOnCanvas && (
+          <LinesLayer
+            lines={shownLines}
+            index={lineIndex}
+            camera={camera}
+            viewport={viewport}
+            selectedLineIds={selectedLineIds}
+            isNavigating={mode === AppMode.NAVIGATION}
+            editableUserId={currentUser?.role === 'viewer' ? null : userId}
+            isAnimating={isAnimating}
+            handlers={lineHandlersRef}
+          />
+        )}
       </svg>
 
+      {/* Receives typing, kept by the line's head so IME candidate windows open there */}
+      <textarea
+        ref={textInputRef}
+        className="fixed w-px h-px p-0 border-0 opacity-0 resize-none overflow-hidden pointer-events-none"
+        style={{ left: head.x, top: head.y }}
+        dir="auto"
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        spellCheck={false}
+        inputMode="text"
+        enterKeyHint="enter"
+        aria-label="Type on the canvas"
+        onInput={handleTextInput}
+        onCompositionStart={handleCompositionStart}
+        onCompositionUpdate={(e) => setComposition(e.data)}
+        onCompositionEnd={handleCompositionEnd}
+      />
+
+      {/* Long-press menu: what right-click and double-click do with a mouse */}
+      {lineMenu && (
+        <div
+          className="fixed z-50 flex bg-white border border-gray-200 shadow-sm text-sm"
+          style={{ left: lineMenu.x, top: lineMenu.y, transform: 'translate(-50%, calc(-100% - 12px))' }}
+          onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+        >
+          <button
+            onClick={() => {
+              editLine(lineMenu.lineId);
+              setLineMenu(null);
+              textInputRef.current?.focus({ preventScroll: true }); // Within the tap, so the keyboard may open
+            }}
+            className="flex items-center gap-1.5 px-3 py-2 hover:bg-gray-100"
+          >
+            <Pencil size={14} />
+            <span>Edit</span>
+          </button>
+          <button
+            onClick={() => {
+              eraseLine(lineMenu.lineId);
+              setLineMenu(null);
+            }}
+            className="flex items-center gap-1.5 px-3 py-2 border-l border-gray-200 text-red-600 hover:bg-gray-100"
+          >
+            <Eraser size={14} />
+            <span>Erase</span>
+          </button>
+        </div>
+      )}
+
       {/* Action buttons */}
       <div className="fixed top-4 right-4 z-40 flex gap-4">
+        <button
+          onClick={handleShare}
+          className="flex items-center gap-1.5 text-sm font-medium hover:underline"
+          title="Copy a link to this room"
+        >
+          <Link size={14} />
+          <span>{linkCopied ? 'Copied' : 'Share'}</span>
+        </button>
         <button
           onClick={() => setIsAnimating(!isAnimating)}
           className="flex items-center gap-1.5 text-sm font-medium hover:underline"
@@ -737,15 +1688,42 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
           <span>{isAnimating ? 'Stop' : 'Flow'}</span>
         </button>
         <button
-          onClick={handleSave}
+          onClick={() => {
+            setShowTimeline(true);
+            setShowExportMenu(false);
+            setShowClearModal(false);
+          }}
           className="flex items-center gap-1.5 text-sm font-medium hover:underline"
-          title="Save as PNG"
+          title="Replay the room's history"
+        >
+          <History size={14} />
+          <span>History</span>
+        </button>
+        <button
+          onClick={handleZoomToFit}
+          className="flex items-center gap-1.5 text-sm font-medium hover:underline"
+          title="Zoom to fit all lines"
+        >
+          <Maximize size={14} />
+          <span>Fit</span>
+        </button>
+        <button
+          onClick={() => {
+            setShowExportMenu(!showExportMenu);
+            setShowClearModal(false);
+          }}
+          disabled={isExporting}
+          className="flex items-center gap-1.5 text-sm font-medium hover:underline disabled:opacity-50"
+          title="Export the whole canvas"
         >
           <Download size={14} />
-          <span>Save</span>
+          <span>{isExporting ? 'Exporting…' : 'Export'}</span>
         </button>
         <button
-          onClick={() => setShowClearModal(true)}
+          onClick={() => {
+            setShowClearModal(true);
+            setShowExportMenu(false);
+          }}
           className="flex items-center gap-1.5 text-sm font-medium hover:underline"
           title="Clear canvas"
         >
@@ -754,6 +1732,106 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
         </button>
       </div>
 
+      {/* Export Options Dropdown */}
+      {showExportMenu && (
+        <div className="fixed top-12 right-4 z-50 w-56 bg-white border border-gray-200 shadow-sm text-sm">
+          <button
+            onClick={() => handleExportSvg(false)}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+          >
+            SVG
+          </button>
+          <button
+            onClick={() => handleExportSvg(true)}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+          >
+            SVG with Flow animation
+          </button>
+          <button
+            onClick={handleExportDocument}
+            className="w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+          >
+            Document ({DOCUMENT_EXTENSION})
+          </button>
+          <div className="flex items-center gap-2 px-4 py-2 border-t border-gray-100">
+            <button
+              onClick={handleExportPng}
+              className="hover:underline"
+            >
+              PNG
+            </button>
+            <span className="text-gray-400">at</span>
+            <input
+              type="number"
+              min={0.5}
+              max={8}
+              step={0.5}
+              value={pngScale}
+              onChange={(e) => setPngScale(Math.min(8, Math.max(0.5, Number(e.target.value) || 1)))}
+              onKeyDown={(e) => e.stopPropagation()} // Don't type onto the canvas
+              className="w-12 border border-gray-200 px-1"
+            />
+            <span className="text-gray-400">× ({scaleToDpi(pngScale)} DPI)</span>
+          </div>
+          {currentUser?.role !== 'viewer' && (
+            <button
+              onClick={() => {
+                setShowExportMenu(false);
+                fileInputRef.current?.click();
+              }}
+              className="w-full flex items-center gap-1.5 px-4 py-2 text-left hover:bg-gray-50 transition-colors border-t border-gray-100"
+            >
+              <Upload size={14} />
+              Import document…
+            </button>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${DOCUMENT_EXTENSION},application/json`}
+        onChange={handleImportFile}
+        className="hidden"
+      />
+
+      {/* Import Confirmation Dropdown */}
+      {(pendingImport || importError) && (
+        <div className="fixed top-12 right-4 z-50 w-56 bg-white border border-gray-200 shadow-sm text-sm">
+          {pendingImport ? (
+            <>
+              <div className="px-4 py-2 text-xs text-gray-400">
+                {pendingImport.canvas.lineCount} lines, {pendingImport.canvas.charCount} characters
+              </div>
+              <button
+                onClick={() => handleImport(false)}
+                className="w-full px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+              >
+                Add to this room
+              </button>
+              <button
+                onClick={() => handleImport(true)}
+                className="w-full px-4 py-2 text-left text-red-600 hover:bg-gray-50 transition-colors"
+              >
+                {currentUser?.role === 'owner' ? 'Replace all lines' : 'Replace my lines'}
+              </button>
+            </>
+          ) : (
+            <div className="px-4 py-2 text-xs text-red-600 break-words">{importError}</div>
+          )}
+          <button
+            onClick={() => {
+              setPendingImport(null);
+              setImportError(null);
+            }}
+            className="w-full px-4 py-2 text-left text-gray-400 hover:bg-gray-50 transition-colors border-t border-gray-100"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
       {/* Clear Confirmation Dropdown */}
       {showClearModal && (
         <div className="fixed top-12 right-4 z-50 w-48 bg-white border border-gray-200 shadow-sm text-sm">
@@ -763,12 +1841,14 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
           >
             Clear my work
           </button>
-          <button
-            onClick={handleClearAll}
-            className="w-full px-4 py-2 text-left text-red-600 hover:bg-gray-50 transition-colors"
-          >
-            Clear all
-          </button>
+          {currentUser?.role === 'owner' && (
+            <button
+              onClick={handleClearAll}
+              className="w-full px-4 py-2 text-left text-red-600 hover:bg-gray-50 transition-colors"
+            >
+              Clear all
+            </button>
+          )}
           <button
             onClick={() => setShowClearModal(false)}
             className="w-full px-4 py-2 text-left text-gray-400 hover:bg-gray-50 transition-colors border-t border-gray-100"
@@ -778,28 +1858,78 @@ export const TypeCanvas: React.FC<TypeCanvasProps> = ({ mode, setMode }) => {
         </div>
       )}
 
+      {showTimeline && (
+        <TimelinePanel roomId={roomId} onClose={handleCloseTimeline} />
+      )}
+
+      {/* Layout modes */}
+      {mode === AppMode.TYPING && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex bg-white border border-gray-200 shadow-sm">
+          {LAYOUT_MODES.map(({ mode: layout, label, icon }) => (
+            <button
+              key={layout}
+              onClick={() => handleLayoutModeChange(layout)}
+              onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+              className={`px-2.5 py-2 transition-colors ${layoutMode === layout ? 'bg-gray-100 text-black' : 'text-gray-400 hover:text-black'}`}
+              title={label}
+            >
+              {icon}
+            </button>
+          ))}
+          <button
+            onClick={() => setRotateGlyphs(!rotateGlyphs)}
+            onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+            className={`px-2.5 py-2 border-l border-gray-200 transition-colors ${rotateGlyphs ? 'bg-gray-100 text-black' : 'text-gray-400 hover:text-black'}`}
+            title={rotateGlyphs ? 'Letters follow the path' : 'Letters stay upright'}
+          >
+            <RotateCw size={14} />
+          </button>
+          {HAS_COARSE_POINTER && (
+            <button
+              onClick={() => textInputRef.current?.focus({ preventScroll: true })}
+              onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+              className="px-2.5 py-2 border-l border-gray-200 text-gray-400 hover:text-black"
+              title="Show keyboard"
+            >
+              <Keyboard size={14} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Users and roles */}
+      <UsersPanel
+        currentUser={currentUser}
+        remoteUsers={remoteUsers}
+        onSetRole={setUserRole}
+        followedUserId={followedUserId}
+        onJumpTo={(id) => {
+          const user = remoteUsers[id];
+          if (user) centerOn(user.cursor);
+        }}
+        onFollow={setFollowedUserId}
+      />
+
       {/* Status indicator */}
       <div className="fixed bottom-4 right-4 text-xs text-gray-400 pointer-events-none select-none flex flex-col items-end gap-1">
         <div className="flex items-center gap-2">
           <span 
             className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}
           />
-          <span>{isConnected ? 'Connected' : 'Disconnected'}</span>
+          <span>{connectionError ?? (isConnected ? 'Connected' : 'Disconnected')}</span>
+          {TRANSPORT_KIND !== 'party' && (
+            <span>• {TRANSPORT_KIND === 'local' ? 'Offline' : 'This browser only'}</span>
+          )}
           {Object.keys(remoteUsers).length > 0 && (
             <span>• {Object.keys(remoteUsers).length + 1} users online</span>
           )}
         </div>
-        <div>{mode === AppMode.TYPING ? 'TYPING' : 'NAVIGATION'} MODE</div>
+        <div>
+          {mode === AppMode.TYPING ? 'TYPING' : 'NAVIGATION'} MODE
+          {currentUser?.role === 'viewer' && ' • VIEW ONLY'}
+        </div>
         {currentUser && (
-          <div className="flex items-center gap-1">
-            <span 
-              className="w-3 h-3 rounded-full" 
-              style={{ backgroundColor: currentUser.color }}
-            />
-            <span style={{ fontFamily: currentUser.fontFamily, fontSize: '10px' }}>
-              {currentUser.fontFamily} • {currentUser.fontSize}px
-            </span>
-          </div>
+          <StylePicker currentUser={currentUser} onChange={updateUserStyle} />
         )}
       </div>
     </div>
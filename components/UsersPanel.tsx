@@ -0,0 +1,88 @@
+import React from 'react';
+import { LocateFixed } from 'lucide-react';
+import { Role, User } from '../types';
+
+interface UsersPanelProps {
+  currentUser: User | null;
+  remoteUsers: Record<string, User>;
+  onSetRole: (userId: string, role: Exclude<Role, 'owner'>) => void;
+  followedUserId: string | null;
+  onJumpTo: (userId: string) => void; // Bring their cursor into view
+  onFollow: (userId: string | null) => void;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const UsersPanel: React.FC<UsersPanelProps> = ({
+  currentUser,
+  remoteUsers,
+  onSetRole,
+  followedUserId,
+  onJumpTo,
+  onFollow,
+}) => {
+  const others = Object.values(remoteUsers);
+  if (!currentUser || others.length === 0) return null;
+
+  const isOwner = currentUser.role === 'owner';
+
+  return (
+    <div
+      className="fixed bottom-4 left-4 z-40 text-xs text-gray-400 select-none flex flex-col gap-1"
+      onPointerDown={(e) => e.stopPropagation()} // Not a click on the canvas
+    >
+      {[currentUser, ...others].map((user: User) => {
+        const isSelf = user.id === currentUser.id;
+        // Owners can switch anyone else between editing and viewing
+        const canToggle = isOwner && !isSelf && user.role !== 'owner';
+        const isFollowed = user.id === followedUserId;
+
+        return (
+          <div key={user.id} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: user.color }}
+            />
+            {isSelf ? (
+              <span style={{ fontFamily: user.fontFamily, fontSize: '10px' }}>You</span>
+            ) : (
+              <button
+                onClick={() => onJumpTo(user.id)}
+                className="hover:underline hover:text-black"
+                style={{ fontFamily: user.fontFamily, fontSize: '10px' }}
+                title="Go to their cursor"
+              >
+                {user.fontFamily}
+              </button>
+            )}
+            {!isSelf && (
+              <button
+                onClick={() => onFollow(isFollowed ? null : user.id)}
+                className={isFollowed ? 'text-black' : 'hover:text-black'}
+                title={isFollowed ? 'Stop following' : 'Follow their cursor'}
+              >
+                <LocateFixed size={12} />
+              </button>
+            )}
+            {canToggle ? (
+              <button
+                onClick={() => onSetRole(user.id, user.role === 'viewer' ? 'editor' : 'viewer')}
+                className="hover:underline hover:text-black"
+                title={user.role === 'viewer' ? 'Allow editing' : 'Make view only'}
+              >
+                {ROLE_LABELS[user.role]}
+              </button>
+            ) : (
+              <span>{ROLE_LABELS[user.role]}</span>
+            )}
+            {!isSelf && user.presence.isTyping && <span className="animate-pulse">typing…</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
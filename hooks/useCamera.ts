@@ -0,0 +1,105 @@
+import { useState, useRef, useCallback } from 'react';
+import { Point } from '../types';
+import type { Bounds } from '../shared/geometry';
+
+// Maps world coordinates (what lines, anchors and cursors are stored in)
+// to the screen: screen = world * zoom + (x, y)
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+
+// Screen pixels kept free around content when zooming to fit
+const FIT_PADDING = 80;
+
+const DEFAULT_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+export function screenToWorld(camera: Camera, point: Point): Point {
+  return {
+    x: (point.x - camera.x) / camera.zoom,
+    y: (point.y - camera.y) / camera.zoom,
+  };
+}
+
+export function worldToScreen(camera: Camera, point: Point): Point {
+  return {
+    x: point.x * camera.zoom + camera.x,
+    y: point.y * camera.zoom + camera.y,
+  };
+}
+
+// SVG transform placing world content on screen
+export function getCameraTransform(camera: Camera): string {
+  return `translate(${camera.x}, ${camera.y}) scale(${camera.zoom})`;
+}
+
+// Zoom by factor, keeping the world point under screenPoint where it is
+export function zoomAt(camera: Camera, screenPoint: Point, factor: number): Camera {
+  const zoom = clampZoom(camera.zoom * factor);
+  const world = screenToWorld(camera, screenPoint);
+  return {
+    x: screenPoint.x - world.x * zoom,
+    y: screenPoint.y - world.y * zoom,
+    zoom,
+  };
+}
+
+// Center the bounds in a viewport, never zooming in past 1:1
+export function fitBounds(bounds: Bounds, viewport: { width: number; height: number }): Camera {
+  const width = Math.max(bounds.maxX - bounds.minX, 1);
+  const height = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = clampZoom(Math.min(
+    (viewport.width - FIT_PADDING * 2) / width,
+    (viewport.height - FIT_PADDING * 2) / height,
+    1
+  ));
+  return {
+    x: viewport.width / 2 - ((bounds.minX + bounds.maxX) / 2) * zoom,
+    y: viewport.height / 2 - ((bounds.minY + bounds.maxY) / 2) * zoom,
+    zoom,
+  };
+}
+
+interface UseCameraReturn {
+  camera: Camera;
+  cameraRef: { current: Camera }; // Current even inside stale event listeners
+  setCamera: (camera: Camera) => void;
+  toWorld: (point: Point) => Point;
+  toScreen: (point: Point) => Point;
+  zoomAtPoint: (screenPoint: Point, factor: number) => void;
+  fitToBounds: (bounds: Bounds | null) => void;
+}
+
+export function useCamera(): UseCameraReturn {
+  const [camera, setCameraState] = useState<Camera>(DEFAULT_CAMERA);
+  const cameraRef = useRef(camera);
+
+  const setCamera = useCallback((next: Camera) => {
+    cameraRef.current = next; // Update ref immediately so the next event sees it
+    setCameraState(next);
+  }, []);
+
+  const toWorld = useCallback((point: Point) => screenToWorld(cameraRef.current, point), []);
+  const toScreen = useCallback((point: Point) => worldToScreen(cameraRef.current, point), []);
+
+  const zoomAtPoint = useCallback((screenPoint: Point, factor: number) => {
+    setCamera(zoomAt(cameraRef.current, screenPoint, factor));
+  }, [setCamera]);
+
+  // Nothing to fit goes back to the origin at 1:1
+  const fitToBounds = useCallback((bounds: Bounds | null) => {
+    setCamera(bounds
+      ? fitBounds(bounds, { width: window.innerWidth, height: window.innerHeight })
+      : DEFAULT_CAMERA);
+  }, [setCamera]);
+
+  return { camera, cameraRef, setCamera, toWorld, toScreen, zoomAtPoint, fitToBounds };
+}
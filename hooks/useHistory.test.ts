@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useHistory, type HistoryAction } from './useHistory';
+
+// The hook only keeps refs and callbacks, so it runs outside React with stand-ins for them
+vi.mock('react', () => ({
+  useRef: <T>(value: T) => ({ current: value }),
+  useCallback: <T>(fn: T) => fn,
+}));
+
+function move(lineId: string, x: number): HistoryAction {
+  return { type: 'moveLine', lineId, x, y: 0 };
+}
+
+function createHistory() {
+  const performed: HistoryAction[] = [];
+  const history = useHistory(action => performed.push(action));
+  return { history, performed };
+}
+
+describe('useHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('makes moves of the same line in quick succession one step', () => {
+    const { history, performed } = createHistory();
+    history.record([move('a', 0)], [move('a', 10)]);
+    vi.advanceTimersByTime(500);
+    history.record([move('a', 10)], [move('a', 20)]);
+
+    history.undo();
+    expect(performed).toEqual([move('a', 0)]);
+    history.undo();
+    expect(performed).toHaveLength(1);
+
+    history.redo();
+    expect(performed[1]).toEqual(move('a', 20));
+  });
+
+  it('keeps moves apart once they are far enough apart in time or of other lines', () => {
+    const { history, performed } = createHistory();
+    history.record([move('a', 0)], [move('a', 10)]);
+    vi.advanceTimersByTime(1500);
+    history.record([move('a', 10)], [move('a', 20)]);
+    history.record([move('b', 0)], [move('b', 10)]);
+
+    history.undo();
+    history.undo();
+    history.undo();
+    expect(performed).toEqual([move('b', 0), move('a', 10), move('a', 0)]);
+  });
+
+  it('doesn\'t merge a redone move into the next one', () => {
+    const { history, performed } = createHistory();
+    history.record([move('a', 0)], [move('a', 10)]);
+    history.undo();
+    history.redo();
+    history.record([move('a', 10)], [move('a', 20)]);
+
+    history.undo();
+    history.undo();
+    expect(performed.slice(2)).toEqual([move('a', 10), move('a', 0)]);
+  });
+
+  it('records everything inside a group as one step, undoing the latest change first', () => {
+    const { history, performed } = createHistory();
+    history.group(() => {
+      history.record([{ type: 'restoreLines', lineIds: ['a'] }], [{ type: 'deleteLines', lineIds: ['a'] }]);
+      history.record([{ type: 'restoreLines', lineIds: ['b'] }], [{ type: 'deleteLines', lineIds: ['b'] }]);
+    });
+
+    history.undo();
+    expect(performed).toEqual([
+      { type: 'restoreLines', lineIds: ['b'] },
+      { type: 'restoreLines', lineIds: ['a'] },
+    ]);
+  });
+
+  it('forgets the oldest steps past the limit', () => {
+    const { history, performed } = createHistory();
+    for (let i = 0; i < 250; i++) {
+      history.record([{ type: 'restoreLines', lineIds: [String(i)] }], [{ type: 'deleteLines', lineIds: [String(i)] }]);
+    }
+    for (let i = 0; i < 250; i++) history.undo();
+
+    expect(performed).toHaveLength(200);
+    expect(performed[performed.length - 1]).toEqual({ type: 'restoreLines', lineIds: ['50'] });
+  });
+
+  it('drops what could be redone once something new is recorded', () => {
+    const { history, performed } = createHistory();
+    history.record([move('a', 0)], [move('a', 10)]);
+    history.undo();
+    history.record([move('b', 0)], [move('b', 10)]);
+    history.redo();
+    expect(performed).toEqual([move('a', 0)]);
+  });
+});
@@ -0,0 +1,120 @@
+import { useRef, useCallback } from 'react';
+import type { CharMove, LineTransform } from '../shared/protocol';
+
+// Undoable changes, described without stamps so they can be replayed later with fresh ones
+export type HistoryAction =
+  | { type: 'removeChars'; lineId: string; charIds: string[] }
+  | { type: 'restoreChars'; lineId: string; charIds: string[] }
+  | { type: 'deleteLines'; lineIds: string[] }
+  | { type: 'restoreLines'; lineIds: string[] }
+  | { type: 'moveLine'; lineId: string; x: number; y: number }
+  | { type: 'moveChars'; lineId: string; chars: CharMove[] }
+  | { type: 'transformLines'; lines: LineTransform[] }
+  | { type: 'clearAll' };
+
+interface HistoryEntry {
+  undo: HistoryAction[]; // Already in the order to run them
+  redo: HistoryAction[];
+  time: number;
+}
+
+const HISTORY_LIMIT = 200;
+
+// Moves of the same lines this close together, e.g. drags in quick succession, are one step
+const MOVE_COALESCE_MS = 1000;
+
+// Which lines an entry that only moves lines moves, as a key
+function getMovedLineId(entry: HistoryEntry): string | null {
+  const [action] = entry.redo;
+  if (entry.redo.length !== 1) return null;
+  if (action.type === 'moveLine') return action.lineId;
+  if (action.type === 'transformLines') return action.lines.map(l => l.lineId).join(' ');
+  return null;
+}
+
+interface UseHistoryReturn {
+  record: (undo: HistoryAction[], redo: HistoryAction[]) => void;
+  group: (fn: () => void) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: () => void;
+}
+
+/**
+ * Undo/redo stacks of the changes this client made. Undoing never restores a
+ * snapshot: it performs the inverse actions as new changes, so whatever other
+ * people did in the meantime is left alone.
+ */
+export function useHistory(perform: (action: HistoryAction) => void): UseHistoryReturn {
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  // Entry collecting everything recorded inside group()
+  const groupRef = useRef<HistoryEntry | null>(null);
+  const performRef = useRef(perform);
+  performRef.current = perform;
+
+  const push = (entry: HistoryEntry) => {
+    const stack = undoStackRef.current;
+    const top = stack[stack.length - 1];
+    const movedLineId = getMovedLineId(entry);
+
+    if (top && movedLineId && getMovedLineId(top) === movedLineId && entry.time - top.time < MOVE_COALESCE_MS) {
+      stack[stack.length - 1] = { undo: top.undo, redo: entry.redo, time: entry.time };
+      return;
+    }
+
+    stack.push(entry);
+    if (stack.length > HISTORY_LIMIT) stack.shift();
+  };
+
+  const record = useCallback((undo: HistoryAction[], redo: HistoryAction[]) => {
+    redoStackRef.current = [];
+    const group = groupRef.current;
+    if (group) {
+      // Later changes are undone first
+      group.undo = [...undo, ...group.undo];
+      group.redo = [...group.redo, ...redo];
+      return;
+    }
+    push({ undo, redo, time: Date.now() });
+  }, []);
+
+  // Record everything fn changes as a single step
+  const group = useCallback((fn: () => void) => {
+    if (groupRef.current) {
+      fn();
+      return;
+    }
+
+    groupRef.current = { undo: [], redo: [], time: Date.now() };
+    try {
+      fn();
+    } finally {
+      const entry = groupRef.current;
+      groupRef.current = null;
+      if (entry.redo.length > 0) push(entry);
+    }
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return;
+    entry.undo.forEach(action => performRef.current(action));
+    redoStackRef.current.push(entry);
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = redoStackRef.current.pop();
+    if (!entry) return;
+    entry.redo.forEach(action => performRef.current(action));
+    // Pushed directly, so a redone move doesn't merge into an earlier one
+    undoStackRef.current.push({ ...entry, time: 0 });
+  }, []);
+
+  const reset = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+  }, []);
+
+  return { record, group, undo, redo, reset };
+}
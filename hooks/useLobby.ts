@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { parseRoomList, LOBBY_ID, LOBBY_PARTY, type RoomSummary } from '../shared/protocol';
+import { fetchParty } from '../utils/transport';
+
+// Room counts change as people come and go; this keeps the list reasonably fresh
+const REFRESH_INTERVAL_MS = 10000;
+
+interface UseLobbyReturn {
+  rooms: RoomSummary[] | null; // null until the first load
+  error: string | null;
+}
+
+export function useLobby(): UseLobbyReturn {
+  const [rooms, setRooms] = useState<RoomSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const res = await fetchParty(LOBBY_PARTY, LOBBY_ID);
+        if (!res.ok) throw new Error(`Lobby responded with ${res.status}`);
+        const list = parseRoomList(await res.text());
+        if (!cancelled) {
+          setRooms(list);
+          setError(null);
+        }
+      } catch (e) {
+        console.error('Error loading rooms:', e);
+        if (!cancelled) setError('Could not load rooms');
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return { rooms, error };
+}
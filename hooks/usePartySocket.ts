@@ -1,30 +1,148 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import PartySocket from 'partysocket';
-import { User, Line, Point, ClientMessage, ServerMessage } from '../types';
+import { User, Line, Point, Char, Role, ClientMessage, Presence } from '../types';
+import {
+  CURSOR_TICK_MS,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type CharMove,
+  type LineDoc,
+  type LineOp,
+  type LineStyle,
+  type LineTransform,
+  type NumberedClientMessage,
+  type Stamp,
+} from '../shared/protocol';
+import {
+  applyLineOp,
+  createCharNodes,
+  createLineDoc,
+  getDocClock,
+  getOpClock,
+  isLineOp,
+  materializeLines,
+  restoreCharsOp,
+  restoreLineOp,
+  type LineDocs,
+} from '../shared/operations';
+import { LamportClock } from '../shared/crdt';
+import { useHistory, type HistoryAction } from './useHistory';
+import { createTransport, type Transport } from '../utils/transport';
+import { getUserIdForToken } from '../shared/identity';
+import { createId } from '../utils/id';
 
-const PARTYKIT_HOST = import.meta.env.VITE_PARTYKIT_HOST || 'type-draw.yulilith.partykit.dev';
+// Ids kept under the old key were sent in the clear and proved nothing, so they're left behind
+const USER_TOKEN_STORAGE_KEY = 'type-draw-user-token';
+
+let sessionToken: string | null = null;
+let sessionUserId: string | null = null;
+
+// A secret that must never leave for anywhere but the server
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Identity token kept in localStorage so a refresh or reconnect keeps ownership of our lines
+function getPersistentToken(): string {
+  if (sessionToken) return sessionToken;
+
+  try {
+    sessionToken = localStorage.getItem(USER_TOKEN_STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (e.g. privacy mode); the token then lasts for this page only
+  }
+
+  if (!sessionToken) {
+    sessionToken = generateToken();
+    try {
+      localStorage.setItem(USER_TOKEN_STORAGE_KEY, sessionToken);
+    } catch {
+      // See above
+    }
+  }
+
+  return sessionToken;
+}
+
+// Derive our public id the way the server does. Hashing is async, so the app
+// waits for this before rendering, and the id is known from the first render on.
+export async function loadIdentity(): Promise<void> {
+  sessionUserId ??= await getUserIdForToken(getPersistentToken());
+}
+
+function getPersistentUserId(): string {
+  if (!sessionUserId) throw new Error('The identity is used before loadIdentity() finished');
+  return sessionUserId;
+}
+
+// What clearing the room means locally: every line we know of is deleted as of the stamp
+function getClearAllOp(docs: LineDocs, stamp: Stamp): LineOp {
+  return { type: 'deleteLines', lineIds: Object.keys(docs), stamp };
+}
 
 interface UsePartySocketReturn {
   isConnected: boolean;
+  connectionError: string | null;
+  userId: string; // Known before the server confirms it, so lines typed offline are ours
   currentUser: User | null;
   remoteUsers: Record<string, User>;
   lines: Line[];
-  setLines: (lines: Line[]) => void;
+  getLines: () => Line[]; // Up to date even before the next render
   sendCursor: (cursor: Point) => void;
+  sendPresence: (presence: Presence) => void;
   addLine: (line: Line) => void;
-  updateLine: (line: Line) => void;
+  insertChars: (lineId: string, afterId: string | null, chars: Char[]) => void;
+  removeChars: (lineId: string, charIds: string[]) => void;
+  moveLine: (lineId: string, x: number, y: number) => void;
+  moveChars: (lineId: string, chars: CharMove[]) => void;
+  transformLines: (lines: LineTransform[]) => void;
   deleteLines: (lineIds: string[]) => void;
+  clearAll: () => void;
+  setUserRole: (userId: string, role: Exclude<Role, 'owner'>) => void;
+  updateUserStyle: (style: LineStyle) => void; // For lines drawn from now on
+  undo: () => void;
+  redo: () => void;
+  groupHistory: (fn: () => void) => void; // Changes made inside fn undo as one step
+}
+
+interface UsePartySocketOptions {
+  cursorTickMs?: number; // Our cursor is sent at most this often
 }
 
-export function usePartySocket(roomId: string = 'main'): UsePartySocketReturn {
+export function usePartySocket(
+  roomId: string = 'main',
+  { cursorTickMs = CURSOR_TICK_MS }: UsePartySocketOptions = {}
+): UsePartySocketReturn {
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [remoteUsers, setRemoteUsers] = useState<Record<string, User>>({});
   const [lines, setLinesState] = useState<Line[]>([]);
   
-  const socketRef = useRef<PartySocket | null>(null);
+  const socketRef = useRef<Transport | null>(null);
   const currentUserRef = useRef<User | null>(null);
 
+  // Identifies this page session to the server, which tracks what it has received from it
+  const clientIdRef = useRef(createId());
+  // Replicated line docs, with our own unacknowledged changes already applied
+  const docsRef = useRef<LineDocs>({});
+  // Stamps our changes; the client id doubles as the CRDT site id
+  const clockRef = useRef(new LamportClock(clientIdRef.current));
+  // Numbered messages not yet acknowledged: queued while offline, resent after a reconnect
+  const pendingRef = useRef<Array<NumberedClientMessage & { clientSeq: number }>>([]);
+  const clientSeqRef = useRef(0);
+  // Last room version applied locally; null until the first init
+  const lastSeqRef = useRef<number | null>(null);
+  // Sending waits for init, so queued messages can't overtake the catchup
+  const isSyncedRef = useRef(false);
+  // Our presence as last sent, and sent again whenever we (re)join
+  const presenceRef = useRef<Presence | null>(null);
+  // Cursor moves waiting for the next tick; only the latest is sent
+  const cursorThrottleRef = useRef<{ pending: Point | null; timer: ReturnType<typeof setTimeout> | null }>({
+    pending: null,
+    timer: null,
+  });
+
   // Keep ref in sync with state
   useEffect(() => {
     currentUserRef.current = currentUser;
@@ -32,76 +150,281 @@ export function usePartySocket(roomId: string = 'main'): UsePartySocketReturn {
 
   // Send message helper
   const sendMessage = useCallback((message: ClientMessage) => {
-    if (socketRef.current?.readyState === WebSocket.OPEN) {
-      socketRef.current.send(JSON.stringify(message));
+    const socket = socketRef.current;
+    const canSend = isSyncedRef.current && !!socket?.isOpen;
+
+    // Stale cursor positions and presence aren't worth queueing
+    if (message.type === 'cursor' || message.type === 'presence') {
+      if (canSend) socket.send(JSON.stringify(message));
+      return;
     }
+
+    const numbered = { ...message, clientSeq: ++clientSeqRef.current };
+    pendingRef.current.push(numbered);
+    if (canSend) socket.send(JSON.stringify(numbered));
   }, []);
 
+  const setDocs = (docs: LineDocs) => {
+    docsRef.current = docs;
+    setLinesState(materializeLines(docs));
+  };
+
+  // Ops from anywhere, in any order: the merge takes care of conflicts
+  const applyOp = (op: LineOp) => {
+    clockRef.current.observe(getOpClock(op));
+    setDocs(applyLineOp(docsRef.current, op));
+  };
+
+  // Server state plus our own changes it hasn't acknowledged yet
+  const withPendingOps = (serverLines: LineDoc[]): LineDocs => {
+    serverLines.forEach(line => clockRef.current.observe(getDocClock(line)));
+    return pendingRef.current.reduce((docs, m) => {
+      if (isLineOp(m)) return applyLineOp(docs, m);
+      if (m.type === 'clearAll') return applyLineOp(docs, getClearAllOp(docs, m.stamp));
+      return docs;
+    }, Object.fromEntries(serverLines.map(line => [line.id, line])) as LineDocs);
+  };
+
+  // Apply our own change right away, then send it
+  const applyLocalOp = useCallback((op: LineOp) => {
+    setDocs(applyLineOp(docsRef.current, op));
+    sendMessage(op);
+  }, [sendMessage]);
+
+  // Everything up to clientSeq has been processed by the server
+  const dropAcknowledged = (clientSeq: number) => {
+    pendingRef.current = pendingRef.current.filter(m => m.clientSeq > clientSeq);
+  };
+
   // Public API methods
+  // The first move goes out right away, later ones once per tick
   const sendCursor = useCallback((cursor: Point) => {
-    sendMessage({ type: 'cursor', cursor });
+    const throttle = cursorThrottleRef.current;
+    throttle.pending = cursor;
+    if (throttle.timer) return;
+
+    const flush = () => {
+      throttle.timer = null;
+      if (!throttle.pending) return;
+      sendMessage({ type: 'cursor', cursor: throttle.pending });
+      throttle.pending = null;
+      throttle.timer = setTimeout(flush, cursorTickMs);
+    };
+    flush();
+  }, [sendMessage, cursorTickMs]);
+
+  // Only sent when something changed
+  const sendPresence = useCallback((presence: Presence) => {
+    if (JSON.stringify(presence) === JSON.stringify(presenceRef.current)) return;
+    presenceRef.current = presence;
+    sendMessage({ type: 'presence', presence });
   }, [sendMessage]);
 
+  useEffect(() => () => {
+    const { timer } = cursorThrottleRef.current;
+    if (timer) clearTimeout(timer);
+  }, []);
+
+  // Run an undoable change as fresh ops, stamped now
+  const performAction = useCallback((action: HistoryAction) => {
+    const stamp = clockRef.current.tick();
+    const docs = docsRef.current;
+
+    switch (action.type) {
+      case 'removeChars':
+        applyLocalOp({ type: 'removeChars', lineId: action.lineId, charIds: action.charIds, stamp });
+        break;
+      case 'restoreChars': {
+        const line = docs[action.lineId];
+        if (line) applyLocalOp(restoreCharsOp(line, action.charIds, stamp));
+        break;
+      }
+      case 'deleteLines':
+        applyLocalOp({ type: 'deleteLines', lineIds: action.lineIds, stamp });
+        break;
+      case 'restoreLines':
+        action.lineIds.forEach(id => {
+          const line = docs[id];
+          if (line) applyLocalOp(restoreLineOp(line, stamp));
+        });
+        break;
+      case 'moveLine':
+        applyLocalOp({ type: 'moveLine', lineId: action.lineId, pos: { value: { x: action.x, y: action.y }, stamp } });
+        break;
+      case 'moveChars':
+        applyLocalOp({ type: 'moveChars', lineId: action.lineId, chars: action.chars, stamp });
+        break;
+      case 'transformLines':
+        applyLocalOp({ type: 'transformLines', lines: action.lines, stamp });
+        break;
+      case 'clearAll':
+        setDocs(applyLineOp(docs, getClearAllOp(docs, stamp)));
+        sendMessage({ type: 'clearAll', stamp });
+        break;
+    }
+  }, [applyLocalOp, sendMessage]);
+
+  const history = useHistory(performAction);
+  const { record: recordHistory } = history;
+
+  // Perform a change and remember how to take it back
+  const performUndoable = useCallback((redo: HistoryAction[], undo: HistoryAction[]) => {
+    recordHistory(undo, redo);
+    redo.forEach(performAction);
+  }, [recordHistory, performAction]);
+
+  // Lines that are currently visible, out of the given ids
+  const getVisibleLineIds = (lineIds: string[]): string[] =>
+    lineIds.filter(id => docsRef.current[id] && !docsRef.current[id].deleted.value);
+
   const addLine = useCallback((line: Line) => {
-    sendMessage({ type: 'addLine', line });
-  }, [sendMessage]);
+    applyLocalOp({ type: 'addLine', line: createLineDoc(line, clockRef.current.tick()) });
+    recordHistory([{ type: 'deleteLines', lineIds: [line.id] }], [{ type: 'restoreLines', lineIds: [line.id] }]);
+  }, [applyLocalOp, recordHistory]);
 
-  const updateLine = useCallback((line: Line) => {
-    sendMessage({ type: 'updateLine', line });
-  }, [sendMessage]);
+  // Insert chars after afterId (null for the start of the line)
+  const insertChars = useCallback((lineId: string, afterId: string | null, chars: Char[]) => {
+    const stamp = clockRef.current.tick();
+    applyLocalOp({ type: 'insertChars', lineId, chars: createCharNodes(chars, afterId, stamp) });
+    const charIds = chars.map(c => c.id);
+    recordHistory([{ type: 'removeChars', lineId, charIds }], [{ type: 'restoreChars', lineId, charIds }]);
+  }, [applyLocalOp, recordHistory]);
+
+  const removeChars = useCallback((lineId: string, charIds: string[]) => {
+    performUndoable([{ type: 'removeChars', lineId, charIds }], [{ type: 'restoreChars', lineId, charIds }]);
+  }, [performUndoable]);
+
+  const moveLine = useCallback((lineId: string, x: number, y: number) => {
+    const line = docsRef.current[lineId];
+    if (!line) return;
+    const { x: prevX, y: prevY } = line.pos.value;
+    performUndoable([{ type: 'moveLine', lineId, x, y }], [{ type: 'moveLine', lineId, x: prevX, y: prevY }]);
+  }, [performUndoable]);
+
+  // Give chars of a line new positions, e.g. to reflow it
+  const moveChars = useCallback((lineId: string, chars: CharMove[]) => {
+    const line = docsRef.current[lineId];
+    if (!line || chars.length === 0) return;
+    const moved = new Set(chars.map(c => c.id));
+    const previous = line.chars.filter(c => moved.has(c.id)).map(c => ({ id: c.id, pos: c.pos.value }));
+    performUndoable([{ type: 'moveChars', lineId, chars }], [{ type: 'moveChars', lineId, chars: previous }]);
+  }, [performUndoable]);
+
+  // Move, rotate or scale several lines in one op
+  const transformLines = useCallback((lines: LineTransform[]) => {
+    const docs = docsRef.current;
+    const transforms = lines.filter(l => docs[l.lineId]);
+    if (transforms.length === 0) return;
+    const previous = transforms.map(({ lineId, chars }) => {
+      const line = docs[lineId];
+      const moved = new Set(chars.map(c => c.id));
+      return {
+        lineId,
+        pos: line.pos.value,
+        chars: line.chars.filter(c => moved.has(c.id)).map(c => ({ id: c.id, pos: c.pos.value })),
+      };
+    });
+    performUndoable([{ type: 'transformLines', lines: transforms }], [{ type: 'transformLines', lines: previous }]);
+  }, [performUndoable]);
 
   const deleteLines = useCallback((lineIds: string[]) => {
-    sendMessage({ type: 'deleteLines', lineIds });
+    const visibleIds = getVisibleLineIds(lineIds);
+    performUndoable([{ type: 'deleteLines', lineIds }], [{ type: 'restoreLines', lineIds: visibleIds }]);
+  }, [performUndoable]);
+
+  const clearAll = useCallback(() => {
+    const visibleIds = getVisibleLineIds(Object.keys(docsRef.current));
+    performUndoable([{ type: 'clearAll' }], [{ type: 'restoreLines', lineIds: visibleIds }]);
+  }, [performUndoable]);
+
+  const setUserRole = useCallback((userId: string, role: Exclude<Role, 'owner'>) => {
+    sendMessage({ type: 'setRole', userId, role });
   }, [sendMessage]);
 
-  const setLines = useCallback((newLines: Line[]) => {
-    setLinesState(newLines);
-    // Send full sync for user's lines
-    if (currentUserRef.current) {
-      const userLines = newLines.filter(l => l.userId === currentUserRef.current?.id);
-      sendMessage({ type: 'lines', lines: userLines });
-    }
+  // Shown right away; the server confirms it to everyone with userUpdated
+  const updateUserStyle = useCallback((style: LineStyle) => {
+    setCurrentUser(prev => prev && { ...prev, ...style });
+    sendMessage({ type: 'updateUser', style });
   }, [sendMessage]);
 
-  // Connect to PartyKit
+  const getLines = useCallback(() => materializeLines(docsRef.current), []);
+
+  // Connect to the room over whichever transport the page was opened with
   useEffect(() => {
-    const socket = new PartySocket({
-      host: PARTYKIT_HOST,
-      room: roomId,
+    // Start clean for this room
+    history.reset();
+    pendingRef.current = [];
+    lastSeqRef.current = null;
+    isSyncedRef.current = false;
+    setDocs({});
+
+    const socket = createTransport({
+      roomId,
+      // Evaluated on every (re)connect, so the server knows what we've already seen
+      query: () => ({
+        token: getPersistentToken(),
+        clientId: clientIdRef.current,
+        protocolVersion: String(PROTOCOL_VERSION),
+        since: lastSeqRef.current === null ? undefined : String(lastSeqRef.current),
+      }),
+      // A tab taking over a shared room keeps what everyone drew so far
+      seed: () => Object.values(docsRef.current),
     });
 
     socketRef.current = socket;
 
     socket.addEventListener('open', () => {
-      console.log('Connected to PartyKit');
+      console.log('Connected to room');
       setIsConnected(true);
     });
 
     socket.addEventListener('close', () => {
-      console.log('Disconnected from PartyKit');
+      console.log('Disconnected from room');
+      isSyncedRef.current = false;
       setIsConnected(false);
     });
 
     socket.addEventListener('message', (event) => {
       try {
-        const message = JSON.parse(event.data) as ServerMessage;
+        const message = parseServerMessage(event.data);
 
         switch (message.type) {
           case 'init': {
+            // The server accepted our version, so it must speak at least that much
+            if (message.protocolVersion < PROTOCOL_VERSION) {
+              setConnectionError('Server is out of date. Please try again later.');
+              socket.close();
+              return;
+            }
+
             console.log('Received init:', message.user);
+            setConnectionError(null);
             setCurrentUser(message.user);
             
             // Set remote users (excluding self)
             const others: Record<string, User> = {};
-            Object.entries(message.state.users).forEach(([id, user]) => {
+            Object.entries(message.users).forEach(([id, user]) => {
               if (id !== message.userId) {
                 others[id] = user;
               }
             });
             setRemoteUsers(others);
-            
-            // Set initial lines
-            setLinesState(message.state.lines);
+
+            // Catch up on lines, keeping whatever we changed while offline
+            dropAcknowledged(message.clientSeq);
+            const { catchup } = message;
+            if (catchup.kind === 'snapshot') {
+              setDocs(withPendingOps(catchup.lines));
+            } else {
+              // Ops are idempotent, so our own are safe to apply again
+              catchup.ops.forEach(entry => applyOp(entry.op));
+            }
+            lastSeqRef.current = message.seq;
+
+            // Now replay what was queued while we were away
+            isSyncedRef.current = true;
+            pendingRef.current.forEach(m => socket.send(JSON.stringify(m)));
+            if (presenceRef.current) sendMessage({ type: 'presence', presence: presenceRef.current });
             break;
           }
 
@@ -124,43 +447,72 @@ export function usePartySocket(roomId: string = 'main'): UsePartySocketReturn {
             break;
           }
 
-          case 'cursor': {
+          case 'userUpdated': {
+            if (message.user.id === currentUserRef.current?.id) {
+              setCurrentUser(message.user);
+            } else {
+              setRemoteUsers(prev => ({
+                ...prev,
+                [message.user.id]: message.user,
+              }));
+            }
+            break;
+          }
+
+          case 'presence': {
+            setRemoteUsers(prev => prev[message.userId]
+              ? { ...prev, [message.userId]: { ...prev[message.userId], presence: message.presence } }
+              : prev);
+            break;
+          }
+
+          case 'cursors': {
+            // Our own cursor is in the batch too, but we're not among the remote users
             setRemoteUsers(prev => {
-              if (prev[message.userId]) {
-                return {
-                  ...prev,
-                  [message.userId]: {
-                    ...prev[message.userId],
-                    cursor: message.cursor,
-                  },
-                };
-              }
-              return prev;
+              const next = { ...prev };
+              Object.entries(message.cursors).forEach(([userId, cursor]) => {
+                if (next[userId]) next[userId] = { ...next[userId], cursor };
+              });
+              return next;
             });
             break;
           }
 
           case 'sync': {
-            setLinesState(message.lines);
+            if (message.clientSeq !== undefined) {
+              dropAcknowledged(message.clientSeq);
+            }
+            setDocs(withPendingOps(message.lines));
+            lastSeqRef.current = message.seq;
             break;
           }
 
-          case 'addLine': {
-            setLinesState(prev => [...prev, message.line]);
+          case 'ack': {
+            dropAcknowledged(message.clientSeq);
+            lastSeqRef.current = message.seq;
             break;
           }
 
-          case 'updateLine': {
-            setLinesState(prev => 
-              prev.map(l => l.id === message.line.id ? message.line : l)
-            );
+          case 'addLine':
+          case 'insertChars':
+          case 'removeChars':
+          case 'moveLine':
+          case 'moveChars':
+          case 'transformLines':
+          case 'deleteLines': {
+            const { seq, ...op } = message;
+            applyOp(op);
+            lastSeqRef.current = seq;
             break;
           }
 
-          case 'deleteLines': {
-            setLinesState(prev => 
-              prev.filter(l => !message.lineIds.includes(l.id))
-            );
+          case 'error': {
+            console.warn(`Server rejected ${message.requestType ?? 'message'} (${message.code}): ${message.message}`);
+            if (message.code === 'protocol_mismatch') {
+              // Reconnecting won't help until the page is reloaded with a matching client
+              setConnectionError('This page is out of date. Please reload.');
+              socket.close();
+            }
             break;
           }
         }
@@ -176,14 +528,27 @@ export function usePartySocket(roomId: string = 'main'): UsePartySocketReturn {
 
   return {
     isConnected,
+    connectionError,
+    userId: getPersistentUserId(),
     currentUser,
     remoteUsers,
     lines,
-    setLines,
+    getLines,
     sendCursor,
+    sendPresence,
     addLine,
-    updateLine,
+    insertChars,
+    removeChars,
+    moveLine,
+    moveChars,
+    transformLines,
     deleteLines,
+    clearAll,
+    setUserRole,
+    updateUserStyle,
+    undo: history.undo,
+    redo: history.redo,
+    groupHistory: history.group,
   };
 }
 
@@ -0,0 +1,41 @@
+import { useEffect, useState, useCallback } from 'react';
+import { createId } from '../utils/id';
+
+// Rooms live at /r/<roomId>; anything else shows the lobby
+const ROOM_PATH_PATTERN = /^\/r\/([A-Za-z0-9_-]{1,64})\/?$/;
+
+function getRoomIdFromLocation(): string | null {
+  const match = window.location.pathname.match(ROOM_PATH_PATTERN);
+  return match ? match[1] : null;
+}
+
+export function getRoomUrl(roomId: string): string {
+  return `${window.location.origin}/r/${roomId}`;
+}
+
+export function generateRoomId(): string {
+  return createId();
+}
+
+interface UseRoomRouteReturn {
+  roomId: string | null; // null for the lobby
+  openRoom: (roomId: string | null) => void;
+}
+
+export function useRoomRoute(): UseRoomRouteReturn {
+  const [roomId, setRoomId] = useState<string | null>(getRoomIdFromLocation);
+
+  // Back/forward buttons
+  useEffect(() => {
+    const handlePopState = () => setRoomId(getRoomIdFromLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const openRoom = useCallback((nextRoomId: string | null) => {
+    window.history.pushState(null, '', nextRoomId ? `/r/${nextRoomId}` : '/');
+    setRoomId(nextRoomId);
+  }, []);
+
+  return { roomId, openRoom };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { parseTimelinePage, type TimelineEntry } from '../shared/protocol';
+import { fetchParty } from '../utils/transport';
+
+interface UseTimelineReturn {
+  entries: TimelineEntry[] | null; // null until loaded
+  error: string | null;
+}
+
+// A room's full history, loaded once, a page at a time
+export function useTimeline(roomId: string): UseTimelineReturn {
+  const [entries, setEntries] = useState<TimelineEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        let timeline: TimelineEntry[] = [];
+        let after: number | null = -1;
+        while (after !== null && !cancelled) {
+          const res = await fetchParty('main', roomId, `?timeline&after=${after}`);
+          if (!res.ok) throw new Error(`Room responded with ${res.status}`);
+          const page = parseTimelinePage(await res.text());
+          timeline = timeline.concat(page.entries);
+          after = page.next;
+        }
+        if (!cancelled) setEntries(timeline);
+      } catch (e) {
+        console.error('Error loading timeline:', e);
+        if (!cancelled) setError('Could not load history');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  return { entries, error };
+}
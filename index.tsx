@@ -1,15 +1,25 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadIdentity } from './hooks/usePartySocket';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+// Hashing the identity token needs crypto.subtle, which browsers only offer over https or on localhost
+loadIdentity().then(
+  () => {
+    const root = ReactDOM.createRoot(rootElement);
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  },
+  (e) => {
+    console.error('Error loading identity:', e);
+    rootElement.textContent = 'Type Draw needs a secure connection: open it over https or on localhost.';
+  }
 );
@@ -0,0 +1,22 @@
+// Party endpoints are read straight from the browser, on another origin than the app
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
+
+// Answer CORS preflights and turn away methods an endpoint doesn't handle
+export function preflight(): Response {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export function methodNotAllowed(): Response {
+  return new Response('Method not allowed', { status: 405, headers: CORS_HEADERS });
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { LoopbackConnection, LoopbackRoom } from '../utils/loopback';
+import { createLineDoc } from '../shared/operations';
+import { getUserIdForToken } from '../shared/identity';
+import { PROTOCOL_VERSION, parseServerMessage, type ClientMessage, type ServerMessage } from '../shared/protocol';
+
+// Let queued sends arrive, as they would over a socket
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function getToken(name: string): string {
+  return `${name}-secret-token`.padEnd(32, '0');
+}
+
+// A client that keeps everything the server sent it
+async function join(room: LoopbackRoom, name: string, query: Record<string, string> = { token: getToken(name) }) {
+  const received: ServerMessage[] = [];
+  const connection = new LoopbackConnection(`${name}-conn`, (message) => received.push(parseServerMessage(message)), () => {});
+  await room.connect(connection, {
+    protocolVersion: String(PROTOCOL_VERSION),
+    clientId: `${name}-tab`,
+    ...query,
+  });
+
+  let clientSeq = 0;
+  const send = async (message: ClientMessage) => {
+    await room.receive(connection, JSON.stringify({ ...message, clientSeq: ++clientSeq }));
+    await settle();
+  };
+  await settle();
+  const init = received.find(m => m.type === 'init');
+  return { received, send, user: init?.type === 'init' ? init.user : null };
+}
+
+async function addLine(lineId: string, name: string, clock: number): Promise<ClientMessage> {
+  const line = { id: lineId, chars: [], x: 0, y: 0, userId: await getUserIdForToken(getToken(name)), color: '#000000', fontSize: 18, fontFamily: 'Inter' };
+  return { type: 'addLine', line: createLineDoc(line, { clock, site: name }) };
+}
+
+describe('TypeDrawServer', () => {
+  describe('identity', () => {
+    it('derives the user id from the secret token', async () => {
+      const room = new LoopbackRoom('test');
+      const alice = await join(room, 'alice');
+      expect(alice.user?.id).toBe(await getUserIdForToken(getToken('alice')));
+      expect(alice.user?.role).toBe('owner');
+    });
+
+    it('doesn\'t let anyone claim a user id they only know publicly', async () => {
+      const room = new LoopbackRoom('test');
+      const alice = await join(room, 'alice');
+      const mallory = await join(room, 'mallory', { userId: alice.user!.id });
+      expect(mallory.user?.id).not.toBe(alice.user?.id);
+      expect(mallory.user?.role).toBe('editor');
+
+      const impostor = await join(room, 'impostor', { token: alice.user!.id });
+      expect(impostor.user?.id).not.toBe(alice.user?.id);
+    });
+
+    it('handles messages sent while the user id is still being derived, in order', async () => {
+      const room = new LoopbackRoom('test');
+      const messages = [await addLine('a', 'alice', 1), await addLine('b', 'alice', 2)];
+      const received: ServerMessage[] = [];
+      const connection = new LoopbackConnection('alice-conn', (message) => received.push(parseServerMessage(message)), () => {});
+
+      const connected = room.connect(connection, { protocolVersion: String(PROTOCOL_VERSION), clientId: 'alice-tab', token: getToken('alice') });
+      await Promise.all(messages.map((message, i) => room.receive(connection, JSON.stringify({ ...message, clientSeq: i + 1 }))));
+      await connected;
+      await settle();
+
+      expect(received[0].type).toBe('init');
+      expect(Object.keys(room.server.state.docs)).toEqual(['a', 'b']);
+      expect(room.server.state.docs.a.userId).toBe(await getUserIdForToken(getToken('alice')));
+    });
+  });
+
+  describe('ops touching lines of others', () => {
+    async function setUp() {
+      const room = new LoopbackRoom('test');
+      const alice = await join(room, 'alice');
+      const bob = await join(room, 'bob');
+      await alice.send(await addLine('a', 'alice', 1));
+      await bob.send(await addLine('b', 'bob', 2));
+      alice.received.length = 0;
+      return { room, alice };
+    }
+
+    it('applies the sender\'s share of a delete and leaves them in sync', async () => {
+      const { room, alice } = await setUp();
+      await alice.send({ type: 'deleteLines', lineIds: ['a', 'b'], stamp: { clock: 3, site: 'alice' } });
+
+      expect(room.server.state.docs.a.deleted.value).toBe(true);
+      expect(room.server.state.docs.b.deleted.value).toBe(false);
+
+      expect(alice.received.map(m => m.type)).toEqual(['deleteLines', 'error', 'sync', 'ack']);
+      const sync = alice.received.find(m => m.type === 'sync');
+      expect(sync?.type === 'sync' && sync.lines.map(l => [l.id, l.deleted.value])).toEqual([['a', true], ['b', false]]);
+      expect(sync?.type === 'sync' && sync.seq).toBe(room.server.seq);
+    });
+
+    it('applies the sender\'s share of a transform and leaves them in sync', async () => {
+      const { room, alice } = await setUp();
+      await alice.send({
+        type: 'transformLines',
+        lines: [
+          { lineId: 'a', pos: { x: 10, y: 10 }, chars: [] },
+          { lineId: 'b', pos: { x: 10, y: 10 }, chars: [] },
+        ],
+        stamp: { clock: 3, site: 'alice' },
+      });
+
+      expect(room.server.state.docs.a.pos.value).toEqual({ x: 10, y: 10 });
+      expect(room.server.state.docs.b.pos.value).toEqual({ x: 0, y: 0 });
+
+      expect(alice.received.map(m => m.type)).toEqual(['transformLines', 'error', 'sync', 'ack']);
+      const sync = alice.received.find(m => m.type === 'sync');
+      expect(sync?.type === 'sync' && sync.lines.map(l => l.pos.value)).toEqual([{ x: 10, y: 10 }, { x: 0, y: 0 }]);
+    });
+  });
+
+  describe('stamps', () => {
+    it('refuses clocks far ahead of the room, which would leave no room for later stamps', async () => {
+      const room = new LoopbackRoom('test');
+      const alice = await join(room, 'alice');
+      await alice.send(await addLine('a', 'alice', 1));
+      alice.received.length = 0;
+
+      await alice.send({ type: 'deleteLines', lineIds: ['a'], stamp: { clock: Number.MAX_SAFE_INTEGER, site: 'alice' } });
+      expect(alice.received.map(m => m.type)).toEqual(['error', 'sync']);
+      expect(room.server.state.docs.a.deleted.value).toBe(false);
+      expect(room.server.maxClock).toBe(1);
+
+      // The room carries on as before
+      await alice.send({ type: 'deleteLines', lineIds: ['a'], stamp: { clock: 2, site: 'alice' } });
+      expect(room.server.state.docs.a.deleted.value).toBe(true);
+    });
+  });
+});
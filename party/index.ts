@@ -1,63 +1,67 @@
 import type * as Party from "partykit/server";
+import { LineStore, TimelineStore, loadProfiles, saveProfile, loadRoles, saveRoles } from "./storage";
+import { notifyLobby } from "./lobby";
+import { json, preflight, methodNotAllowed } from "./http";
+import { createThumbnail } from "./thumbnail";
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  CURSOR_TICK_MS,
+  IDLE_PRESENCE,
+  LIMITS,
+  USER_COLORS,
+  USER_FONT_FAMILIES,
+  USER_FONT_SIZES,
+  ProtocolError,
+  parseClientMessage,
+  readLineDoc,
+  readTimelineEntry,
+  type Catchup,
+  type ErrorCode,
+  type LineDoc,
+  type LineOp,
+  type LoggedOp,
+  type Point,
+  type Role,
+  type RoomSummary,
+  type ServerMessage,
+  type TimelineEntry,
+  type TimelinePage,
+  type User,
+} from "../shared/protocol";
+import { applyLineOp, getDocClock, getOpClock, getOpLineIds, isLineOp, materializeLines, type LineDocs } from "../shared/operations";
+import { getUserIdForToken } from "../shared/identity";
+
+// Style that sticks to a persistent user id across reconnects
+type UserProfile = Pick<User, 'color' | 'fontSize' | 'fontFamily'>;
 
-// User styling options
-const COLORS = ['#A6CEE3', '#1F78B4', '#B2DF8A', '#33A02C', '#FB9A99', '#E31A1C', '#FDBF6F'];
-const FONT_SIZES = [11, 18, 28];
-const FONT_FAMILIES = ['Space Mono', 'Playfair Display', 'Inter'];
-
-interface Point {
-  x: number;
-  y: number;
+interface RoomState {
+  users: Record<string, User>;
+  docs: LineDocs; // Deleted lines included, so late ops still merge the same way everywhere
 }
 
-interface User {
-  id: string;
-  color: string;
-  fontSize: number;
-  fontFamily: string;
-  cursor: Point;
+// Per-connection state, mapping the socket to the client's persistent identity
+interface ConnectionState {
+  userId: string;
+  clientId: string; // One page session; a user can have several
 }
 
-interface Char {
-  id: string;
-  value: string;
-  x: number;
-  y: number;
-}
+// Recent ops kept in memory so reconnecting clients can catch up without a full snapshot
+const OP_LOG_LIMIT = 1000;
 
-interface Line {
-  id: string;
-  chars: Char[];
-  x: number;
-  y: number;
-  userId: string;
-  color: string;
-  fontSize: number;
-  fontFamily: string;
-}
+// Room changes reach the lobby at most this often
+const LOBBY_NOTIFY_DELAY_MS = 5000;
 
-interface RoomState {
-  users: Record<string, User>;
-  lines: Line[];
-}
+// How far past the highest clock the room has seen a stamp may be. Honest clients only
+// get ahead by the changes they made offline; a stamp near the largest safe integer
+// would leave no room for later ones, and every replica would refuse them for good.
+const CLOCK_LEAD_LIMIT = 100_000;
+
+// Client-generated ids are only trusted if they look like ids
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
 
-// Message types
-type ClientMessage =
-  | { type: 'cursor'; cursor: Point }
-  | { type: 'lines'; lines: Line[] }
-  | { type: 'addLine'; line: Line }
-  | { type: 'updateLine'; line: Line }
-  | { type: 'deleteLines'; lineIds: string[] };
-
-type ServerMessage =
-  | { type: 'init'; userId: string; user: User; state: RoomState }
-  | { type: 'userJoined'; user: User }
-  | { type: 'userLeft'; userId: string }
-  | { type: 'cursor'; userId: string; cursor: Point }
-  | { type: 'sync'; lines: Line[] }
-  | { type: 'addLine'; line: Line }
-  | { type: 'updateLine'; line: Line }
-  | { type: 'deleteLines'; lineIds: string[] };
+// Identity tokens are secrets, so they have to be long enough not to be guessed
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32,128}$/;
 
 function randomChoice<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
@@ -71,164 +75,561 @@ function getUnusedOrRandom<T>(options: T[], usedValues: T[]): T {
   return randomChoice(options);
 }
 
+function getUserId(conn: Party.Connection): string {
+  return (conn.state as ConnectionState | null)?.userId ?? conn.id;
+}
+
+function getClientId(conn: Party.Connection): string {
+  return (conn.state as ConnectionState | null)?.clientId ?? conn.id;
+}
+
+// What numbered messages are tracked by. Client ids go out with every logged op,
+// so they're scoped to the user, or anyone could claim another's page session.
+function getSessionKey(conn: Party.Connection): string {
+  return `${getUserId(conn)}/${getClientId(conn)}`;
+}
+
 export default class TypeDrawServer implements Party.Server {
   state: RoomState = {
     users: {},
-    lines: [],
+    docs: {},
   };
 
-  constructor(readonly room: Party.Room) {}
+  store: LineStore<LineDoc>;
+  timeline: TimelineStore<TimelineEntry>;
+  profiles: Record<string, UserProfile> = {};
+  roles: Record<string, Role> = {};
+
+  // Room version: bumped for every applied op
+  seq = 0;
+  // Highest Lamport clock of any accepted stamp
+  maxClock = 0;
+  opLog: LoggedOp[] = [];
+  // Last numbered message processed per session key, to acknowledge and de-duplicate resends
+  clientSeqs = new Map<string, number>();
+  // Connections whose user id is still being derived from their token, by connection id
+  joining = new Map<string, Promise<void>>();
+
+  // When the canvas last changed, for the lobby's sort order
+  updatedAt = Date.now();
+  lobbyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Cursor moves since the last batch, keyed by user id
+  cursorUpdates = new Map<string, Point>();
+  cursorTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(readonly room: Party.Room) {
+    this.store = new LineStore(room.storage, readLineDoc);
+    this.timeline = new TimelineStore(room.storage, readTimelineEntry);
+  }
 
-  onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
-    const currentUsers = Object.values(this.state.users);
-    const userCount = currentUsers.length;
+  // Runs before the first connection, so init always carries the persisted lines
+  async onStart() {
+    const { lines, seq } = await this.store.load();
+    this.state.docs = Object.fromEntries(lines.map(line => [line.id, line]));
+    this.seq = seq;
+    lines.forEach(line => this.observeClock(getDocClock(line)));
+    this.profiles = await loadProfiles<UserProfile>(this.room.storage);
+    this.roles = await loadRoles<Role>(this.room.storage);
+
+    // Rooms from before the timeline existed start it with the lines they already had
+    await this.timeline.load();
+    if (this.timeline.isEmpty()) {
+      const time = Date.now();
+      Object.values(this.state.docs).forEach(line => {
+        this.timeline.append({ seq: this.seq, time, userId: line.userId, op: { type: 'addLine', line } });
+      });
+    }
+  }
 
-    // Get currently used values
-    const usedColors = currentUsers.map(u => u.color);
-    const usedFonts = currentUsers.map(u => u.fontFamily);
-    const usedSizes = currentUsers.map(u => u.fontSize);
+  async onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+    const params = new URL(ctx.request.url).searchParams;
+
+    // Clients that send no version predate versioning and are rejected along with other old ones
+    const clientVersion = Number(params.get('protocolVersion'));
+    if (!(clientVersion >= MIN_PROTOCOL_VERSION && clientVersion <= PROTOCOL_VERSION)) {
+      this.sendError(
+        conn,
+        'protocol_mismatch',
+        `Protocol version ${params.get('protocolVersion')} is not supported (server speaks ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`
+      );
+      conn.close(4000, 'Unsupported protocol version');
+      return;
+    }
 
-    // Assign color: unique if ≤7 users (we have 7 colors)
-    const color = userCount < COLORS.length 
-      ? getUnusedOrRandom(COLORS, usedColors)
-      : randomChoice(COLORS);
+    // The identity the client keeps across reloads comes from its secret token, never from
+    // a user id it names, since ids are public; without a token it lasts for this socket only
+    const token = params.get('token');
+    const joined = (token && TOKEN_PATTERN.test(token) ? getUserIdForToken(token) : Promise.resolve(conn.id))
+      .then(userId => this.join(conn, userId, params));
+    this.joining.set(conn.id, joined);
+    try {
+      await joined;
+    } finally {
+      this.joining.delete(conn.id);
+    }
+  }
 
-    // Assign font: unique if ≤3 users (we have 3 fonts)
-    const fontFamily = userCount < FONT_FAMILIES.length
-      ? getUnusedOrRandom(FONT_FAMILIES, usedFonts)
-      : randomChoice(FONT_FAMILIES);
+  // Welcome a connection once its user id is known
+  join(conn: Party.Connection, userId: string, params: URLSearchParams) {
+    // Closed while its id was being derived
+    if (!this.room.getConnection(conn.id)) return;
 
-    // Assign font size: unique if ≤3 users (we have 3 sizes)
-    const fontSize = userCount < FONT_SIZES.length
-      ? getUnusedOrRandom(FONT_SIZES, usedSizes)
-      : randomChoice(FONT_SIZES);
-
-    const user: User = {
-      id: conn.id,
-      color,
-      fontSize,
-      fontFamily,
+    const requestedClientId = params.get('clientId');
+    const clientId = requestedClientId && ID_PATTERN.test(requestedClientId) ? requestedClientId : conn.id;
+    conn.setState({ userId, clientId } satisfies ConnectionState);
+
+    // Another tab of the same person may already be connected
+    const existingUser = this.state.users[userId];
+    const user: User = existingUser ?? {
+      id: userId,
+      ...(this.profiles[userId] ?? this.assignProfile(userId)),
       cursor: { x: 0, y: 0 },
+      role: this.getRole(userId),
+      presence: IDLE_PRESENCE,
     };
 
-    this.state.users[conn.id] = user;
+    this.state.users[userId] = user;
 
-    // Send init message with user info and current state
+    // Send init message with user info and whatever the client is missing
     const initMessage: ServerMessage = {
       type: 'init',
-      userId: conn.id,
+      protocolVersion: PROTOCOL_VERSION,
+      userId,
       user,
-      state: this.state,
+      users: this.state.users,
+      seq: this.seq,
+      clientSeq: this.clientSeqs.get(getSessionKey(conn)) ?? 0,
+      catchup: this.getCatchup(params.get('since')),
     };
     conn.send(JSON.stringify(initMessage));
 
     // Broadcast to others that a new user joined
-    const joinMessage: ServerMessage = {
-      type: 'userJoined',
-      user,
-    };
-    this.room.broadcast(JSON.stringify(joinMessage), [conn.id]);
+    if (!existingUser) {
+      const joinMessage: ServerMessage = {
+        type: 'userJoined',
+        user,
+      };
+      this.room.broadcast(JSON.stringify(joinMessage), [conn.id]);
+      this.scheduleLobbyNotice();
+    }
 
-    console.log(`User ${conn.id} connected with color ${user.color}`);
+    console.log(`User ${userId} connected on ${conn.id} with color ${user.color}`);
   }
 
   onClose(conn: Party.Connection) {
+    // Never joined, so there's nothing to leave
+    if (this.joining.has(conn.id)) return;
+    const userId = getUserId(conn);
+
+    // Only leave once the user's last connection is gone
+    const stillConnected = [...this.room.getConnections()].some(
+      c => c.id !== conn.id && getUserId(c) === userId
+    );
+    if (stillConnected) return;
+
     // Remove user from state
-    delete this.state.users[conn.id];
+    delete this.state.users[userId];
+    this.cursorUpdates.delete(userId);
 
     // Broadcast that user left
     const leaveMessage: ServerMessage = {
       type: 'userLeft',
-      userId: conn.id,
+      userId,
     };
     this.room.broadcast(JSON.stringify(leaveMessage));
 
-    console.log(`User ${conn.id} disconnected`);
+    console.log(`User ${userId} disconnected`);
+
+    // Don't leave buffered writes behind when the room empties and may shut down
+    if (Object.keys(this.state.users).length === 0) {
+      this.store.flush().catch(e => console.error('Error persisting lines:', e));
+      this.timeline.flush().catch(e => console.error('Error persisting timeline:', e));
+      this.notifyLobbyNow();
+    } else {
+      this.scheduleLobbyNotice();
+    }
+  }
+
+  // GET returns the room's summary, read by the lobby; GET ?timeline&after=<seq> returns
+  // a page of its history, with where the next page starts if there is one
+  async onRequest(req: Party.Request) {
+    if (req.method === 'OPTIONS') return preflight();
+    if (req.method !== 'GET') return methodNotAllowed();
+
+    const params = new URL(req.url).searchParams;
+    if (params.has('timeline')) {
+      // The room's first lines are logged at seq 0, so reading starts before it
+      const after = Number(params.get('after') ?? -1);
+      if (!Number.isSafeInteger(after)) return json({ error: 'after must be an integer' }, 400);
+
+      const { entries, hasMore } = await this.timeline.readAfter(after);
+      const timeline: TimelinePage = { entries, next: hasMore ? entries[entries.length - 1].seq : null };
+      return json(timeline);
+    }
+    return json(this.getSummary());
+  }
+
+  getSummary(): RoomSummary {
+    const lines = materializeLines(this.state.docs);
+    return {
+      id: this.room.id,
+      userCount: Object.keys(this.state.users).length,
+      lineCount: lines.length,
+      updatedAt: this.updatedAt,
+      thumbnail: createThumbnail(lines),
+    };
+  }
+
+  // Batch lobby notices so a burst of typing is one refresh
+  scheduleLobbyNotice() {
+    if (this.lobbyTimer) return;
+    this.lobbyTimer = setTimeout(() => this.notifyLobbyNow(), LOBBY_NOTIFY_DELAY_MS);
+  }
+
+  notifyLobbyNow() {
+    if (this.lobbyTimer) {
+      clearTimeout(this.lobbyTimer);
+      this.lobbyTimer = null;
+    }
+    notifyLobby(this.room);
+  }
+
+  // Everyone's cursor moves go out together once per tick, however often they arrive
+  scheduleCursorBatch() {
+    if (this.cursorTimer) return;
+    this.cursorTimer = setTimeout(() => this.sendCursorBatch(), CURSOR_TICK_MS);
+  }
+
+  sendCursorBatch() {
+    this.cursorTimer = null;
+    if (this.cursorUpdates.size === 0) return;
+
+    // Everyone gets the same message; clients skip their own cursor
+    const cursorsMessage: ServerMessage = {
+      type: 'cursors',
+      cursors: Object.fromEntries(this.cursorUpdates),
+    };
+    this.cursorUpdates.clear();
+    this.room.broadcast(JSON.stringify(cursorsMessage));
+  }
+
+  // The first person to ever join a room owns it; everyone else starts as an editor
+  getRole(userId: string): Role {
+    const role = this.roles[userId];
+    if (role) return role;
+
+    const hasOwner = Object.values(this.roles).includes('owner');
+    if (hasOwner) return 'editor';
+
+    this.roles[userId] = 'owner';
+    saveRoles(this.room.storage, this.roles)
+      .catch(e => console.error('Error persisting roles:', e));
+    return 'owner';
+  }
+
+  // Ops since the client's last seen version if we still have them all, otherwise the whole room
+  getCatchup(since: string | null): Catchup {
+    const sinceSeq = Number(since ?? NaN);
+    const oldestLogged = this.opLog.length > 0 ? this.opLog[0].seq : this.seq + 1;
+
+    if (Number.isSafeInteger(sinceSeq) && sinceSeq >= oldestLogged - 1 && sinceSeq <= this.seq) {
+      return { kind: 'ops', ops: this.opLog.filter(entry => entry.seq > sinceSeq) };
+    }
+    return { kind: 'snapshot', lines: Object.values(this.state.docs) };
+  }
+
+  observeClock(clock: number) {
+    this.maxClock = Math.max(this.maxClock, clock);
+  }
+
+  // Apply an accepted op to room state, persist the touched lines and relay it to everyone else.
+  // Ops the sender didn't apply locally themselves are echoed back to them too.
+  applyOp(op: LineOp, sender: Party.Connection, echo = false) {
+    this.state.docs = applyLineOp(this.state.docs, op);
+    this.observeClock(getOpClock(op));
+
+    getOpLineIds(op).forEach(id => {
+      const doc = this.state.docs[id];
+      if (doc) this.store.put(doc);
+    });
+
+    this.seq++;
+    this.store.setSeq(this.seq);
+    this.updatedAt = Date.now();
+    this.scheduleLobbyNotice();
+    this.timeline.append({ seq: this.seq, time: this.updatedAt, userId: getUserId(sender), op });
+    this.opLog.push({ seq: this.seq, origin: getClientId(sender), op });
+    if (this.opLog.length > OP_LOG_LIMIT) {
+      this.opLog.splice(0, this.opLog.length - OP_LOG_LIMIT);
+    }
+
+    const opMessage: ServerMessage = { ...op, seq: this.seq };
+    this.room.broadcast(JSON.stringify(opMessage), echo ? [] : [sender.id]);
+  }
+
+  // Confirm everything the sender has sent so far, and the room version it produced
+  sendAck(conn: Party.Connection) {
+    const ackMessage: ServerMessage = {
+      type: 'ack',
+      seq: this.seq,
+      clientSeq: this.clientSeqs.get(getSessionKey(conn)) ?? 0,
+    };
+    conn.send(JSON.stringify(ackMessage));
+  }
+
+  sendError(conn: Party.Connection, code: ErrorCode, message: string, requestType?: string) {
+    const errorMessage: ServerMessage = {
+      type: 'error',
+      code,
+      message,
+      ...(requestType && { requestType }),
+    };
+    conn.send(JSON.stringify(errorMessage));
+  }
+
+  // Tell the sender their change was refused and hand back the authoritative lines to revert to
+  rejectMutation(sender: Party.Connection, requestType: string, code: ErrorCode, reason: string) {
+    this.sendError(sender, code, reason, requestType);
+    const syncMessage: ServerMessage = {
+      type: 'sync',
+      lines: Object.values(this.state.docs),
+      seq: this.seq,
+      clientSeq: this.clientSeqs.get(getSessionKey(sender)),
+    };
+    sender.send(JSON.stringify(syncMessage));
+  }
+
+  // Pick a style for a first-time user and remember it for their reconnects
+  assignProfile(userId: string): UserProfile {
+    const currentUsers = Object.values(this.state.users);
+    const userCount = currentUsers.length;
+
+    // Get currently used values
+    const usedColors = currentUsers.map(u => u.color);
+    const usedFonts = currentUsers.map(u => u.fontFamily);
+    const usedSizes = currentUsers.map(u => u.fontSize);
+
+    // Assign color: unique if ≤7 users (we have 7 colors)
+    const color = userCount < USER_COLORS.length 
+      ? getUnusedOrRandom(USER_COLORS, usedColors)
+      : randomChoice(USER_COLORS);
+
+    // Assign font: unique if ≤3 users (we have 3 fonts)
+    const fontFamily = userCount < USER_FONT_FAMILIES.length
+      ? getUnusedOrRandom(USER_FONT_FAMILIES, usedFonts)
+      : randomChoice(USER_FONT_FAMILIES);
+
+    // Assign font size: unique if ≤3 users (we have 3 sizes)
+    const fontSize = userCount < USER_FONT_SIZES.length
+      ? getUnusedOrRandom(USER_FONT_SIZES, usedSizes)
+      : randomChoice(USER_FONT_SIZES);
+
+    const profile: UserProfile = { color, fontSize, fontFamily };
+    this.profiles[userId] = profile;
+    saveProfile(this.room.storage, userId, profile)
+      .catch(e => console.error('Error persisting profile:', e));
+    return profile;
   }
 
   onMessage(message: string, sender: Party.Connection) {
+    // Sent before the sender joined: handled once it has, in the order sent
+    const joining = this.joining.get(sender.id);
+    if (joining) {
+      joining.then(() => this.onMessage(message, sender)).catch(() => {});
+      return;
+    }
+
+    const userId = getUserId(sender);
+    const role = this.state.users[userId]?.role ?? 'viewer';
+
     try {
-      const data = JSON.parse(message) as ClientMessage;
+      const data = parseClientMessage(message);
+
+      if (data.clientSeq !== undefined) {
+        const sessionKey = getSessionKey(sender);
+        // Resent after a reconnect but already applied: just confirm it again
+        if (data.clientSeq <= (this.clientSeqs.get(sessionKey) ?? 0)) {
+          this.sendAck(sender);
+          return;
+        }
+        this.clientSeqs.set(sessionKey, data.clientSeq);
+      }
+
+      // Everything except cursor movement, presence and one's own style changes the canvas
+      if (data.type !== 'cursor' && data.type !== 'presence' && data.type !== 'updateUser' && role === 'viewer') {
+        this.rejectMutation(sender, data.type, 'forbidden', 'Viewers cannot change the canvas');
+        return;
+      }
+
+      const clock = isLineOp(data) ? getOpClock(data) : data.type === 'clearAll' ? data.stamp.clock : 0;
+      if (clock > this.maxClock + CLOCK_LEAD_LIMIT) {
+        this.rejectMutation(sender, data.type, 'invalid_message', `Stamp clock ${clock} is too far ahead of the room`);
+        return;
+      }
 
       switch (data.type) {
         case 'cursor': {
           // Update user cursor in state
-          if (this.state.users[sender.id]) {
-            this.state.users[sender.id].cursor = data.cursor;
+          if (this.state.users[userId]) {
+            this.state.users[userId].cursor = data.cursor;
           }
 
-          // Broadcast cursor position to all other users
-          const cursorMessage: ServerMessage = {
-            type: 'cursor',
-            userId: sender.id,
-            cursor: data.cursor,
+          // Sent on with the next batch
+          this.cursorUpdates.set(userId, data.cursor);
+          this.scheduleCursorBatch();
+          break;
+        }
+
+        case 'presence': {
+          const user = this.state.users[userId];
+          if (!user) break;
+          user.presence = data.presence;
+
+          // Changes with what the user is doing, which is far less often than the cursor moves
+          const presenceMessage: ServerMessage = {
+            type: 'presence',
+            userId,
+            presence: data.presence,
           };
-          this.room.broadcast(JSON.stringify(cursorMessage), [sender.id]);
+          this.room.broadcast(JSON.stringify(presenceMessage), [sender.id]);
           break;
         }
 
         case 'addLine': {
-          // Add line to state
-          this.state.lines.push(data.line);
+          // Re-adding merges into the existing line, which only its author may do.
+          // The room owner may also restore lines they cleared, but change nothing else about them.
+          const existing = this.state.docs[data.line.id];
+          if (existing && existing.userId !== userId) {
+            if (role !== 'owner') {
+              this.rejectMutation(sender, data.type, 'conflict', `Line ${data.line.id} already exists`);
+              break;
+            }
+            this.applyOp({ type: 'addLine', line: { ...existing, deleted: data.line.deleted } }, sender);
+            break;
+          }
 
-          // Broadcast to all other users
-          const addMessage: ServerMessage = {
-            type: 'addLine',
-            line: data.line,
-          };
-          this.room.broadcast(JSON.stringify(addMessage), [sender.id]);
+          // Ownership comes from the connection, never from the payload
+          this.applyOp({ type: 'addLine', line: { ...data.line, userId } }, sender);
           break;
         }
 
-        case 'updateLine': {
-          // Update line in state
-          const lineIndex = this.state.lines.findIndex(l => l.id === data.line.id);
-          if (lineIndex !== -1) {
-            this.state.lines[lineIndex] = data.line;
+        case 'insertChars':
+        case 'removeChars':
+        case 'moveLine':
+        case 'moveChars': {
+          const line = this.state.docs[data.lineId];
+          if (!line || line.userId !== userId) {
+            this.rejectMutation(sender, data.type, 'forbidden', `Line ${data.lineId} is not yours to change`);
+            break;
+          }
+          if (data.type === 'insertChars') {
+            const visibleCount = line.chars.filter(c => !c.deleted.value).length;
+            if (
+              visibleCount + data.chars.length > LIMITS.charsPerLine ||
+              line.chars.length + data.chars.length > LIMITS.charNodesPerLine
+            ) {
+              this.rejectMutation(sender, data.type, 'conflict', `Lines are limited to ${LIMITS.charsPerLine} characters`);
+              break;
+            }
           }
 
-          // Broadcast to all other users
-          const updateMessage: ServerMessage = {
-            type: 'updateLine',
-            line: data.line,
-          };
-          this.room.broadcast(JSON.stringify(updateMessage), [sender.id]);
+          this.applyOp(data, sender);
+          break;
+        }
+
+        case 'transformLines': {
+          // Only the sender's own lines move; the rest of the group stays put.
+          // A partly refused op is echoed, since the sender applied it all and must revert the rest.
+          const lines = data.lines.filter(l => this.state.docs[l.lineId]?.userId === userId);
+          const refused = lines.length < data.lines.length;
+          if (lines.length > 0) this.applyOp({ ...data, lines }, sender, refused);
+          if (refused) {
+            this.rejectMutation(sender, data.type, 'forbidden', 'Lines owned by others cannot be transformed');
+          }
           break;
         }
 
         case 'deleteLines': {
-          // Remove lines from state
-          this.state.lines = this.state.lines.filter(
-            l => !data.lineIds.includes(l.id)
-          );
-
-          // Broadcast to all other users
-          const deleteMessage: ServerMessage = {
-            type: 'deleteLines',
-            lineIds: data.lineIds,
-          };
-          this.room.broadcast(JSON.stringify(deleteMessage), [sender.id]);
+          // Only the sender's own lines can be deleted, echoed like a partly refused transform
+          const lineIds = data.lineIds.filter(id => this.state.docs[id]?.userId === userId);
+          const refused = lineIds.length < data.lineIds.length;
+          if (lineIds.length > 0) this.applyOp({ ...data, lineIds }, sender, refused);
+          if (refused) {
+            this.rejectMutation(sender, data.type, 'forbidden', 'Lines owned by others cannot be deleted');
+          }
           break;
         }
 
-        case 'lines': {
-          // Full sync from a user (used after major changes)
-          // Update only lines owned by this user
-          const otherLines = this.state.lines.filter(l => l.userId !== sender.id);
-          const userLines = data.lines.filter(l => l.userId === sender.id);
-          this.state.lines = [...otherLines, ...userLines];
-
-          // Broadcast sync to all other users
-          const syncMessage: ServerMessage = {
-            type: 'sync',
-            lines: this.state.lines,
-          };
-          this.room.broadcast(JSON.stringify(syncMessage), [sender.id]);
+        case 'clearAll': {
+          if (role !== 'owner') {
+            this.rejectMutation(sender, data.type, 'forbidden', 'Only the room owner can clear all lines');
+            break;
+          }
+
+          // Delete every line the server knows of as of the owner's stamp; lines added
+          // concurrently by others with a later stamp survive, as they would anywhere else
+          const lineIds = Object.values(this.state.docs)
+            .filter(doc => !doc.deleted.value)
+            .map(doc => doc.id);
+          if (lineIds.length === 0) break;
+
+          this.applyOp({ type: 'deleteLines', lineIds, stamp: data.stamp }, sender, true);
           break;
         }
+
+        case 'setRole': {
+          const target = this.state.users[data.userId];
+          if (role !== 'owner' || data.userId === userId) {
+            this.rejectMutation(sender, data.type, 'forbidden', 'Only the room owner can assign roles to others');
+            break;
+          }
+
+          this.roles[data.userId] = data.role;
+          saveRoles(this.room.storage, this.roles)
+            .catch(e => console.error('Error persisting roles:', e));
+
+          // Role changes only need announcing while the user is here
+          if (target) {
+            target.role = data.role;
+            const updateMessage: ServerMessage = {
+              type: 'userUpdated',
+              user: target,
+            };
+            this.room.broadcast(JSON.stringify(updateMessage));
+          }
+          break;
+        }
+
+        case 'updateUser': {
+          // Existing lines keep the style they were drawn in
+          const profile: UserProfile = { ...data.style };
+          this.profiles[userId] = profile;
+          saveProfile(this.room.storage, userId, profile)
+            .catch(e => console.error('Error persisting profile:', e));
+
+          const user = this.state.users[userId];
+          if (user) {
+            Object.assign(user, profile);
+            const updateMessage: ServerMessage = {
+              type: 'userUpdated',
+              user,
+            };
+            this.room.broadcast(JSON.stringify(updateMessage));
+          }
+          break;
+        }
+      }
+
+      if (data.clientSeq !== undefined) {
+        this.sendAck(sender);
       }
     } catch (e) {
-      console.error('Error processing message:', e);
+      if (e instanceof ProtocolError) {
+        this.sendError(sender, e.code, e.message);
+      } else {
+        console.error('Error processing message:', e);
+      }
     }
   }
 }
@@ -0,0 +1,80 @@
+import type * as Party from "partykit/server";
+import { loadRoomSummaries, saveRoomSummary, deleteRoomSummary } from "./storage";
+import { CORS_HEADERS, json, preflight, methodNotAllowed } from "./http";
+import {
+  LIMITS,
+  LOBBY_ID,
+  LOBBY_PARTY,
+  ProtocolError,
+  parseRoomNotice,
+  parseRoomSummary,
+  type RoomSummary,
+} from "../shared/protocol";
+
+// Tell the lobby a room changed. Fire and forget: the lobby being down mustn't affect the room.
+export function notifyLobby(room: Party.Room) {
+  room.context.parties[LOBBY_PARTY]
+    .get(LOBBY_ID)
+    .fetch({ method: 'POST', body: JSON.stringify({ id: room.id }) })
+    .catch(e => console.error('Error notifying lobby:', e));
+}
+
+/**
+ * Keeps a summary of every room for the lobby view. Rooms only say that they
+ * changed; the summary itself is fetched from the room.
+ */
+export default class LobbyServer implements Party.Server {
+  rooms: Record<string, RoomSummary> = {};
+
+  constructor(readonly room: Party.Room) {}
+
+  async onStart() {
+    this.rooms = await loadRoomSummaries<RoomSummary>(this.room.storage);
+  }
+
+  async onRequest(req: Party.Request) {
+    if (req.method === 'OPTIONS') {
+      return preflight();
+    }
+
+    if (req.method === 'GET') {
+      // Busiest rooms first, then the most recently changed
+      const rooms = Object.values(this.rooms)
+        .sort((a, b) => b.userCount - a.userCount || b.updatedAt - a.updatedAt)
+        .slice(0, LIMITS.lobbyRooms);
+      return json({ rooms });
+    }
+
+    if (req.method === 'POST') {
+      try {
+        const roomId = parseRoomNotice(await req.text());
+        await this.refreshRoom(roomId);
+        return new Response(null, { status: 204, headers: CORS_HEADERS });
+      } catch (e) {
+        if (e instanceof ProtocolError) {
+          return json({ error: e.message }, 400);
+        }
+        console.error('Error refreshing room:', e);
+        return json({ error: 'Could not refresh room' }, 502);
+      }
+    }
+
+    return methodNotAllowed();
+  }
+
+  // Re-read a room's summary; rooms with nobody in them and nothing drawn are dropped
+  async refreshRoom(roomId: string) {
+    const res = await this.room.context.parties.main.get(roomId).fetch({ method: 'GET' });
+    const summary = parseRoomSummary(await res.text());
+
+    if (summary.userCount === 0 && summary.lineCount === 0) {
+      delete this.rooms[roomId];
+      await deleteRoomSummary(this.room.storage, roomId);
+    } else {
+      this.rooms[roomId] = summary;
+      await saveRoomSummary(this.room.storage, roomId, summary);
+    }
+  }
+}
+
+LobbyServer satisfies Party.Worker;
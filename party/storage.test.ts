@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import type * as Party from 'partykit/server';
+import { TimelineStore } from './storage';
+import { MemoryStorage } from '../utils/loopback';
+
+interface Entry {
+  seq: number;
+  text: string;
+}
+
+// Enough entries of varying length to fill many pages, some sharing a seq
+function createEntries(count: number): Entry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    seq: Math.floor(i / 3),
+    text: 'x'.repeat((i * 37) % 500),
+  }));
+}
+
+function readEntry(value: unknown): Entry {
+  const entry = value as Entry;
+  if (typeof entry?.seq !== 'number' || typeof entry.text !== 'string') throw new Error('Not an entry');
+  return entry;
+}
+
+function createStore(storage: Party.Storage): TimelineStore<Entry> {
+  return new TimelineStore(storage, readEntry);
+}
+
+async function readAll(store: TimelineStore<Entry>): Promise<{ entries: Entry[]; reads: number }> {
+  let entries: Entry[] = [];
+  let reads = 0;
+  let after = -1;
+  for (;;) {
+    const page = await store.readAfter(after);
+    reads++;
+    entries = entries.concat(page.entries);
+    if (!page.hasMore) return { entries, reads };
+    after = page.entries[page.entries.length - 1].seq;
+  }
+}
+
+describe('TimelineStore', () => {
+  it('reads the whole timeline back a part at a time', async () => {
+    const store = createStore(new MemoryStorage() as unknown as Party.Storage);
+    const entries = createEntries(5000);
+    entries.forEach(entry => store.append(entry));
+
+    const read = await readAll(store);
+    expect(read.entries).toEqual(entries);
+    expect(read.reads).toBeGreaterThan(1);
+  });
+
+  it('starts reading from any seq, after a reload and after more appends', async () => {
+    const storage = new MemoryStorage() as unknown as Party.Storage;
+    const entries = createEntries(5000);
+    const first = createStore(storage);
+    entries.slice(0, 3000).forEach(entry => first.append(entry));
+    await first.flush();
+
+    const store = createStore(storage);
+    await store.load();
+    entries.slice(3000, 4000).forEach(entry => store.append(entry));
+    expect((await store.readAfter(500)).entries[0]).toEqual(entries.find(entry => entry.seq === 501));
+
+    entries.slice(4000).forEach(entry => store.append(entry));
+    for (const after of [-1, 0, 999, 1200, 1500, 1665]) {
+      const { entries: read } = await store.readAfter(after);
+      expect(read).toEqual(entries.filter(entry => entry.seq > after).slice(0, read.length));
+    }
+    expect((await store.readAfter(1666)).entries).toEqual([]);
+  });
+
+  it('skips entries it can\'t read and returns the rest', async () => {
+    const storage = new MemoryStorage();
+    const entries = createEntries(30);
+    const first = createStore(storage as unknown as Party.Storage);
+    entries.forEach(entry => first.append(entry));
+    await first.flush();
+
+    // Written by some older code: one entry isn't JSON, another isn't an entry
+    const [key, page] = [...(await storage.list<string>({ prefix: 'timeline:' }))][0];
+    const lines = page.split('\n');
+    lines[4] = '{"seq":1,"text":';
+    lines[7] = '{"seq":2}';
+    await storage.put(key, lines.join('\n'));
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore(storage as unknown as Party.Storage);
+    await store.load();
+    const { entries: read } = await store.readAfter(-1);
+    expect(read).toEqual(entries.filter((_, i) => i !== 4 && i !== 7));
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,408 @@
+import type * as Party from "partykit/server";
+import { readLine } from "../shared/protocol";
+import { createLineDoc } from "../shared/operations";
+
+// Bump whenever the persisted line shape changes, and add a migration
+// from the previous version to MIGRATIONS below.
+export const STORAGE_SCHEMA_VERSION = 2;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const SEQ_KEY = 'seq';
+const LINE_KEY_PREFIX = 'line:';
+const PROFILE_KEY_PREFIX = 'user:';
+const ROLES_KEY = 'roles';
+const ROOM_KEY_PREFIX = 'room:';
+const TIMELINE_KEY_PREFIX = 'timeline:';
+const TIMELINE_PAGES_KEY = 'timelinePages';
+
+// The timeline is one append-only text stream cut into pages, kept well under
+// the 128 KiB value limit even when every char takes two bytes
+const TIMELINE_PAGE_CHARS = 32 * 1024;
+
+// A timeline read returns about this much, so a room's whole history is never held at once
+const TIMELINE_READ_ENTRIES = 1000;
+const TIMELINE_READ_CHARS = 1024 * 1024;
+
+// Entries are written with their seq first, so it can be read without parsing the rest
+const SEQ_PREFIX = /^\{"seq":(\d+)[,}]/;
+
+// Writes are coalesced for this long so a burst of keystrokes becomes one put
+const FLUSH_DELAY_MS = 1000;
+
+// Durable Objects accept at most 128 keys per put/delete call
+const MAX_KEYS_PER_CALL = 128;
+
+// Stamp site for everything written before lines had stamps
+const LEGACY_SITE = 'legacy';
+
+// Migrations keyed by the schema version they upgrade *from*.
+// Each one receives a stored record, checks it has the shape it upgrades from,
+// and returns it in the next version's shape. Throws ProtocolError.
+const MIGRATIONS: Record<number, (record: StoredRecord<unknown>) => StoredRecord<unknown>> = {
+  // 1 stored plain lines; 2 stores line docs. Draw order becomes the creation clock.
+  1: (record) => ({
+    order: record.order,
+    value: createLineDoc(readLine(record.value, 'line'), { clock: record.order, site: LEGACY_SITE }),
+  }),
+};
+
+interface StoredRecord<T> {
+  order: number; // Preserves draw order, since storage.list() sorts by key
+  value: T;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Load every remembered user profile, keyed by persistent user id
+export async function loadProfiles<T>(storage: Party.Storage): Promise<Record<string, T>> {
+  const entries = await storage.list<T>({ prefix: PROFILE_KEY_PREFIX });
+  const profiles: Record<string, T> = {};
+  entries.forEach((profile, key) => {
+    profiles[key.slice(PROFILE_KEY_PREFIX.length)] = profile;
+  });
+  return profiles;
+}
+
+export function saveProfile<T>(storage: Party.Storage, userId: string, profile: T): Promise<void> {
+  return storage.put(PROFILE_KEY_PREFIX + userId, profile);
+}
+
+// Load the role assignments for this room, keyed by persistent user id
+export async function loadRoles<T>(storage: Party.Storage): Promise<Record<string, T>> {
+  return (await storage.get<Record<string, T>>(ROLES_KEY)) ?? {};
+}
+
+export function saveRoles<T>(storage: Party.Storage, roles: Record<string, T>): Promise<void> {
+  return storage.put(ROLES_KEY, roles);
+}
+
+// Load the lobby's room summaries, keyed by room id
+export async function loadRoomSummaries<T>(storage: Party.Storage): Promise<Record<string, T>> {
+  const entries = await storage.list<T>({ prefix: ROOM_KEY_PREFIX });
+  const summaries: Record<string, T> = {};
+  entries.forEach((summary, key) => {
+    summaries[key.slice(ROOM_KEY_PREFIX.length)] = summary;
+  });
+  return summaries;
+}
+
+export function saveRoomSummary<T>(storage: Party.Storage, roomId: string, summary: T): Promise<void> {
+  return storage.put(ROOM_KEY_PREFIX + roomId, summary);
+}
+
+export async function deleteRoomSummary(storage: Party.Storage, roomId: string): Promise<void> {
+  await storage.delete(ROOM_KEY_PREFIX + roomId);
+}
+
+/**
+ * Persists room lines in PartyKit storage, one key per line.
+ * Changes are buffered in memory and flushed in batches.
+ * Loaded lines are checked with read, since storage holds whatever older code wrote.
+ */
+export class LineStore<T extends { id: string }> {
+  private pending = new Map<string, T | null>(); // null marks a deletion
+  private pendingSeq: number | null = null;
+  private order = new Map<string, number>();
+  private nextOrder = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly storage: Party.Storage,
+    private readonly read: (value: unknown, path: string) => T
+  ) {}
+
+  // Load all lines and the room sequence number they reflect,
+  // migrating the lines first if they were stored by an older schema
+  async load(): Promise<{ lines: T[]; seq: number }> {
+    const storedVersion = await this.storage.get<number>(SCHEMA_VERSION_KEY);
+    const entries = await this.storage.list<StoredRecord<unknown>>({ prefix: LINE_KEY_PREFIX });
+
+    // Rooms persisted before versioning existed are treated as version 1
+    let version = storedVersion ?? 1;
+    let records = [...entries.values()];
+
+    if (version > STORAGE_SCHEMA_VERSION) {
+      throw new Error(`Stored schema version ${version} is newer than ${STORAGE_SCHEMA_VERSION}`);
+    }
+
+    const needsMigration = version < STORAGE_SCHEMA_VERSION;
+    while (version < STORAGE_SCHEMA_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) {
+        throw new Error(`No storage migration from schema version ${version}`);
+      }
+      records = records.map(migrate);
+      version++;
+    }
+
+    const lines = records
+      .map((record): StoredRecord<T> => ({ order: record.order, value: this.read(record.value, 'line') }))
+      .sort((a, b) => a.order - b.order);
+    lines.forEach(record => {
+      this.order.set(record.value.id, record.order);
+      this.nextOrder = Math.max(this.nextOrder, record.order + 1);
+    });
+
+    if (needsMigration) {
+      const migrated: Record<string, StoredRecord<T>> = {};
+      lines.forEach(record => {
+        migrated[LINE_KEY_PREFIX + record.value.id] = record;
+      });
+      for (const keys of chunk(Object.keys(migrated), MAX_KEYS_PER_CALL)) {
+        await this.storage.put(Object.fromEntries(keys.map(key => [key, migrated[key]])));
+      }
+    }
+    if (storedVersion !== STORAGE_SCHEMA_VERSION) {
+      await this.storage.put(SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION);
+    }
+
+    const seq = (await this.storage.get<number>(SEQ_KEY)) ?? 0;
+    return { lines: lines.map(record => record.value), seq };
+  }
+
+  // Queue a line to be written (new or updated)
+  put(line: T) {
+    if (!this.order.has(line.id)) {
+      this.order.set(line.id, this.nextOrder++);
+    }
+    this.pending.set(line.id, line);
+    this.scheduleFlush();
+  }
+
+  // Queue lines to be removed
+  delete(lineIds: string[]) {
+    lineIds.forEach(id => {
+      if (this.order.has(id)) {
+        this.pending.set(id, null);
+      }
+    });
+    this.scheduleFlush();
+  }
+
+  // Record the room sequence number, written together with the lines it describes
+  setSeq(seq: number) {
+    this.pendingSeq = seq;
+    this.scheduleFlush();
+  }
+
+  // Write all buffered changes immediately
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.size === 0 && this.pendingSeq === null) return;
+
+    const changes = [...this.pending.entries()];
+    this.pending.clear();
+
+    const puts: Record<string, StoredRecord<T> | number> = {};
+    if (this.pendingSeq !== null) {
+      puts[SEQ_KEY] = this.pendingSeq;
+      this.pendingSeq = null;
+    }
+    const deletes: string[] = [];
+    changes.forEach(([id, line]) => {
+      if (line) {
+        puts[LINE_KEY_PREFIX + id] = { order: this.order.get(id) ?? 0, value: line };
+      } else {
+        deletes.push(LINE_KEY_PREFIX + id);
+        this.order.delete(id);
+      }
+    });
+
+    for (const keys of chunk(Object.keys(puts), MAX_KEYS_PER_CALL)) {
+      await this.storage.put(Object.fromEntries(keys.map(key => [key, puts[key]])));
+    }
+    for (const keys of chunk(deletes, MAX_KEYS_PER_CALL)) {
+      await this.storage.delete(keys);
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(e => console.error('Error persisting lines:', e));
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+// Page keys sort in page order, since storage.list() sorts by key
+function getTimelineKey(page: number): string {
+  return TIMELINE_KEY_PREFIX + String(page).padStart(10, '0');
+}
+
+/**
+ * Durable, append-only log of everything that happened in a room.
+ * Entries are stored as JSON lines; appends are buffered and flushed in batches
+ * like line changes, and only the pages they touched are rewritten.
+ * Reads go by seq, starting from the page the first entry wanted is on, and entries
+ * read back are checked with read, skipping any that don't parse.
+ * Nothing is ever dropped: the log grows for as long as the room is used, about
+ * as much as the ops sent to it, and is only gone when the room's storage is.
+ */
+export class TimelineStore<T extends { seq: number }> {
+  private tail = ''; // Contents of the last, partly filled page
+  private tailPage = 0;
+  private pageCount = 0;
+  private pendingPages = new Map<number, string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Seq of the entry each page opens with (or in), built on the first read
+  private pageSeqs: number[] | null = null;
+  private indexed: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: Party.Storage,
+    private readonly read: (value: unknown, path: string) => T
+  ) {}
+
+  // Pick up where the stored log ends
+  async load() {
+    this.pageCount = (await this.storage.get<number>(TIMELINE_PAGES_KEY)) ?? 0;
+    if (this.pageCount > 0) {
+      this.tailPage = this.pageCount - 1;
+      this.tail = (await this.storage.get<string>(getTimelineKey(this.tailPage))) ?? '';
+    }
+  }
+
+  isEmpty(): boolean {
+    return this.pageCount === 0 && this.tail.length === 0;
+  }
+
+  // Queue an entry; long entries simply continue on the next page
+  append(entry: T) {
+    let text = JSON.stringify(entry) + '\n';
+    while (text.length > 0) {
+      if (this.tail.length === TIMELINE_PAGE_CHARS) {
+        this.tailPage++;
+        this.tail = '';
+      }
+      if (this.tail.length === 0 && this.pageSeqs) this.pageSeqs[this.tailPage] = entry.seq;
+      const room = TIMELINE_PAGE_CHARS - this.tail.length;
+      this.tail += text.slice(0, room);
+      text = text.slice(room);
+      this.pendingPages.set(this.tailPage, this.tail);
+    }
+    this.pageCount = this.tailPage + 1;
+    this.scheduleFlush();
+  }
+
+  // Entries after the given seq, oldest first, including ones not yet flushed. Stops
+  // after about a read's worth, but never between entries sharing a seq, so the
+  // next read can start after the last one returned.
+  async readAfter(after: number): Promise<{ entries: T[]; hasMore: boolean }> {
+    this.indexed ??= this.buildIndex();
+    await this.indexed;
+    await this.flush();
+
+    // Seqs only grow, so nothing wanted comes before the last page opening at or before `after`
+    const seqs = this.pageSeqs!;
+    let page = 0;
+    for (let p = 1; p < this.pageCount && seqs[p] <= after; p++) page = p;
+
+    // A page opening inside an entry starts with the rest of it
+    const previous = page > 0 ? await this.storage.get<string>(getTimelineKey(page - 1)) : '';
+    let skip = !!previous && !previous.endsWith('\n');
+
+    const entries: T[] = [];
+    let chars = 0;
+    let buffer = '';
+    for (; page < this.pageCount; page++) {
+      buffer += (await this.storage.get<string>(getTimelineKey(page))) ?? '';
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+
+      for (const line of lines) {
+        if (skip) {
+          skip = false;
+          continue;
+        }
+        const entry = this.parseEntry(line);
+        if (!entry || entry.seq <= after) continue;
+        const isFull = entries.length >= TIMELINE_READ_ENTRIES || chars >= TIMELINE_READ_CHARS;
+        if (isFull && entry.seq !== entries[entries.length - 1].seq) return { entries, hasMore: true };
+        entries.push(entry);
+        chars += line.length;
+      }
+    }
+    return { entries, hasMore: false };
+  }
+
+  // One bad entry, e.g. written by older code, costs only itself rather than the whole read
+  private parseEntry(line: string): T | null {
+    try {
+      return this.read(JSON.parse(line), 'timeline entry');
+    } catch (e) {
+      console.warn('Skipping unreadable timeline entry:', e);
+      return null;
+    }
+  }
+
+  // Find the seq each stored page opens in, reading one page at a time
+  private async buildIndex() {
+    // Pages from here on are indexed as they're appended
+    const seqs: number[] = [];
+    this.pageSeqs = seqs;
+    const pageCount = this.pageCount;
+    await this.flush();
+
+    let seq = 0;
+    let head: string | null = ''; // Start of the entry being read, until its seq is known
+    let waiting: number[] = []; // Pages opening inside that entry
+    for (let page = 0; page < pageCount; page++) {
+      const text = (await this.storage.get<string>(getTimelineKey(page))) ?? '';
+      if (head === null) seqs[page] = seq;
+      else waiting.push(page);
+
+      text.split('\n').forEach((segment, i) => {
+        if (i > 0) head = '';
+        if (head === null) return;
+        head += segment;
+        const match = SEQ_PREFIX.exec(head);
+        if (!match) return;
+        seq = Number(match[1]);
+        waiting.forEach(p => {
+          seqs[p] = seq;
+        });
+        waiting = [];
+        head = null;
+      });
+    }
+    // Pages still waiting open inside an entry that's still being written; reads
+    // start no later than them, since an unknown seq never compares as reached
+  }
+
+  // Write all buffered pages immediately
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingPages.size === 0) return;
+
+    const puts: Record<string, string | number> = { [TIMELINE_PAGES_KEY]: this.pageCount };
+    this.pendingPages.forEach((text, page) => {
+      puts[getTimelineKey(page)] = text;
+    });
+    this.pendingPages.clear();
+
+    for (const keys of chunk(Object.keys(puts), MAX_KEYS_PER_CALL)) {
+      await this.storage.put(Object.fromEntries(keys.map(key => [key, puts[key]])));
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(e => console.error('Error persisting timeline:', e));
+    }, FLUSH_DELAY_MS);
+  }
+}
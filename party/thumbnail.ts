@@ -0,0 +1,42 @@
+import { LIMITS, THUMBNAIL_SIZE, type Line, type Point, type ThumbnailStroke } from "../shared/protocol";
+import { getBounds, getCharPositions } from "../shared/geometry";
+
+// Every nth char of a line, always keeping the last one so the stroke ends where the text does
+function samplePoints(points: Point[], maxPoints: number): Point[] {
+  if (points.length <= maxPoints) return points;
+  const step = (points.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => points[Math.round(i * step)]);
+}
+
+/**
+ * A rough sketch of the canvas for the lobby: each line becomes a stroke through
+ * its chars, scaled to fit a THUMBNAIL_SIZE square. Only the newest lines are kept.
+ */
+export function createThumbnail(lines: Line[]): ThumbnailStroke[] {
+  const strokes = lines.slice(-LIMITS.thumbnailStrokes).map(line => ({
+    color: line.color,
+    points: getCharPositions(line),
+  }));
+
+  const bounds = getBounds(strokes.flatMap(stroke => stroke.points));
+  if (!bounds) return [];
+
+  const { minX, minY } = bounds;
+  const width = bounds.maxX - minX;
+  const height = bounds.maxY - minY;
+
+  // Keep the aspect ratio and center the drawing in the square
+  const scale = width === 0 && height === 0 ? 1 : THUMBNAIL_SIZE / Math.max(width, height);
+  const offsetX = (THUMBNAIL_SIZE - width * scale) / 2;
+  const offsetY = (THUMBNAIL_SIZE - height * scale) / 2;
+
+  return strokes
+    .filter(stroke => stroke.points.length > 0)
+    .map(stroke => ({
+      color: stroke.color,
+      points: samplePoints(stroke.points, LIMITS.thumbnailPoints).map(p => ({
+        x: Math.round(offsetX + (p.x - minX) * scale),
+        y: Math.round(offsetY + (p.y - minY) * scale),
+      })),
+    }));
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { compareStamps, integrateChar, mergeLww } from './crdt';
+import type { CharNode, Lww } from './protocol';
+
+function createNode(id: string, after: string | null, clock: number, site: string): CharNode {
+  const stamp = { clock, site };
+  return { id, value: id, after, stamp, pos: { value: { x: 0, y: 0 }, stamp }, deleted: { value: false, stamp } };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+// Orders the server could deliver the nodes in: each one after the char it follows
+function deliveryOrders(nodes: CharNode[]): CharNode[][] {
+  return permutations(nodes).filter(order =>
+    order.every((node, i) => node.after === null || order.slice(0, i).some(n => n.id === node.after))
+  );
+}
+
+function integrateAll(nodes: CharNode[]): string {
+  return nodes.reduce(integrateChar, [] as CharNode[]).map(c => c.id).join('');
+}
+
+describe('integrateChar', () => {
+  it('settles on one order for concurrent inserts at the same place, whatever order they arrive in', () => {
+    const nodes = [
+      createNode('a', null, 1, 'alice'),
+      createNode('b', null, 1, 'bob'),
+      createNode('c', null, 2, 'carol'),
+    ];
+    const results = new Set(permutations(nodes).map(integrateAll));
+    // Later stamps come first, so the newest insert sits right after the shared origin
+    expect([...results]).toEqual(['cba']);
+  });
+
+  it('keeps runs typed after each char together, in any causal order', () => {
+    const nodes = [
+      createNode('h', null, 1, 'alice'),
+      createNode('i', 'h', 2, 'alice'),
+      createNode('x', 'h', 2, 'bob'),
+      createNode('y', 'x', 3, 'bob'),
+      createNode('!', 'i', 3, 'alice'),
+    ];
+    const orders = deliveryOrders(nodes);
+    expect(orders.length).toBeGreaterThan(1);
+    expect(new Set(orders.map(integrateAll))).toEqual(new Set(['hxyi!']));
+  });
+
+  it('merges a char it already has instead of inserting it twice', () => {
+    const node = createNode('a', null, 1, 'alice');
+    const deleted = { ...node, deleted: { value: true, stamp: { clock: 2, site: 'bob' } } };
+    const chars = integrateChar(integrateChar([node], deleted), node);
+    expect(chars).toHaveLength(1);
+    expect(chars[0].deleted.value).toBe(true);
+  });
+});
+
+describe('mergeLww', () => {
+  it('breaks clock ties by site, so both replicas keep the same write', () => {
+    const alice: Lww<string> = { value: 'alice', stamp: { clock: 3, site: 'alice' } };
+    const bob: Lww<string> = { value: 'bob', stamp: { clock: 3, site: 'bob' } };
+    expect(mergeLww(alice, bob)).toBe(bob);
+    expect(mergeLww(bob, alice)).toBe(bob);
+    expect(compareStamps(alice.stamp, bob.stamp)).toBeLessThan(0);
+  });
+
+  it('keeps the later clock over the larger site', () => {
+    const early: Lww<string> = { value: 'early', stamp: { clock: 2, site: 'zed' } };
+    const late: Lww<string> = { value: 'late', stamp: { clock: 3, site: 'amy' } };
+    expect(mergeLww(early, late)).toBe(late);
+    expect(mergeLww(late, early)).toBe(late);
+  });
+});
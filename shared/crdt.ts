@@ -0,0 +1,63 @@
+import type { CharNode, Lww, Stamp } from './protocol';
+
+// Total order over stamps: by clock, then by site
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+// Last-writer-wins: keep whichever write has the later stamp
+export function mergeLww<T>(current: Lww<T>, incoming: Lww<T>): Lww<T> {
+  return compareStamps(incoming.stamp, current.stamp) > 0 ? incoming : current;
+}
+
+/**
+ * Insert a char into an RGA sequence, returning a new array.
+ * The char goes right after its `after` char, past any chars inserted after that
+ * same char with a later stamp, so every replica settles on the same order.
+ * Chars already present just have their registers merged.
+ */
+export function integrateChar(chars: CharNode[], node: CharNode): CharNode[] {
+  const existingIndex = chars.findIndex(c => c.id === node.id);
+  if (existingIndex !== -1) {
+    const existing = chars[existingIndex];
+    const merged: CharNode = {
+      ...existing,
+      pos: mergeLww(existing.pos, node.pos),
+      deleted: mergeLww(existing.deleted, node.deleted),
+    };
+    if (merged.pos === existing.pos && merged.deleted === existing.deleted) return chars;
+    return chars.map((c, i) => (i === existingIndex ? merged : c));
+  }
+
+  // Ops arrive causally ordered through the server, so the origin is normally known;
+  // if not, appending keeps the char rather than dropping it
+  let index = node.after === null ? 0 : chars.findIndex(c => c.id === node.after) + 1;
+  if (node.after !== null && index === 0) index = chars.length;
+
+  while (index < chars.length && compareStamps(chars[index].stamp, node.stamp) > 0) {
+    index++;
+  }
+
+  return [...chars.slice(0, index), node, ...chars.slice(index)];
+}
+
+/**
+ * Lamport clock for one replica. Every local change ticks it, and every
+ * stamp seen from others pushes it forward, so new stamps beat everything
+ * the replica already knows about.
+ */
+export class LamportClock {
+  private clock = 0;
+
+  constructor(readonly site: string) {}
+
+  tick(): Stamp {
+    this.clock++;
+    return { clock: this.clock, site: this.site };
+  }
+
+  observe(clock: number) {
+    this.clock = Math.max(this.clock, clock);
+  }
+}
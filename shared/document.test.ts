@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createDocument, parseDocument, prepareImport, DOCUMENT_FORMAT, DOCUMENT_VERSION } from './document';
+import { ProtocolError } from './protocol';
+import type { Line } from '../types';
+
+function createLine(id: string, userId = 'alice'): Line {
+  return {
+    id,
+    chars: [{ id: `${id}-0`, value: 'h', x: 0, y: 0 }, { id: `${id}-1`, value: 'i', x: 10, y: 0 }],
+    x: 100,
+    y: 50,
+    userId,
+    color: '#000000',
+    fontSize: 18,
+    fontFamily: 'Inter',
+  };
+}
+
+function serialize(document: object): string {
+  return JSON.stringify(document);
+}
+
+describe('parseDocument', () => {
+  it('reads back what createDocument wrote', () => {
+    const document = createDocument([createLine('a'), createLine('b')], 'room');
+    expect(parseDocument(serialize(document))).toEqual(document);
+  });
+
+  it('derives the metadata again instead of trusting it', () => {
+    const document = createDocument([createLine('a')], 'room');
+    const parsed = parseDocument(serialize({ ...document, canvas: { ...document.canvas, lineCount: 99, charCount: 99, bounds: null } }));
+    expect(parsed.canvas).toEqual(document.canvas);
+  });
+
+  it.each([
+    ['text that isn\'t JSON', '{"format":'],
+    ['JSON that isn\'t an object', '[]'],
+    ['another format', serialize({ format: 'other', version: 1, lines: [] })],
+    ['a version from the future', serialize({ format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION + 1, lines: [] })],
+    ['a version that isn\'t one', serialize({ format: DOCUMENT_FORMAT, version: 1.5, lines: [] })],
+    ['lines that aren\'t a list', serialize({ format: DOCUMENT_FORMAT, version: 1, lines: {} })],
+    ['a line missing its chars', serialize({ format: DOCUMENT_FORMAT, version: 1, lines: [{ ...createLine('a'), chars: undefined }] })],
+    ['a char with a bad position', serialize({ format: DOCUMENT_FORMAT, version: 1, lines: [{ ...createLine('a'), chars: [{ id: 'c', value: 'x', x: 'left', y: 0 }] }] })],
+  ])('rejects %s', (_, raw) => {
+    expect(() => parseDocument(raw)).toThrow(ProtocolError);
+  });
+});
+
+describe('prepareImport', () => {
+  it('gives every line and char a fresh id and makes the importer their owner', () => {
+    const lines = [createLine('a'), createLine('b', 'bob')];
+    let next = 0;
+    const copies = prepareImport(lines, 'carol', () => `id-${next++}`);
+
+    expect(copies.map(line => line.id)).toEqual(['id-0', 'id-3']);
+    expect(copies.flatMap(line => line.chars.map(c => c.id))).toEqual(['id-1', 'id-2', 'id-4', 'id-5']);
+    expect(copies.every(line => line.userId === 'carol')).toBe(true);
+  });
+
+  it('keeps everything else as it was', () => {
+    const line = createLine('a');
+    const [copy] = prepareImport([line], 'carol', () => 'new');
+    expect({ ...copy, id: line.id, userId: line.userId, chars: line.chars }).toEqual(line);
+    expect(copy.chars.map(({ value, x, y }) => ({ value, x, y }))).toEqual(line.chars.map(({ value, x, y }) => ({ value, x, y })));
+  });
+});
@@ -0,0 +1,91 @@
+import { ProtocolError, readLine, type Line } from './protocol';
+import { getLinesBounds, type Bounds } from './geometry';
+
+// .typedraw files: a room's lines as JSON, for archiving and moving work between rooms.
+// Bump DOCUMENT_VERSION on any incompatible change and teach parseDocument the old shape.
+export const DOCUMENT_FORMAT = 'typedraw';
+export const DOCUMENT_VERSION = 1;
+export const DOCUMENT_EXTENSION = '.typedraw';
+
+// Far more than a room would hold, but bounds what a crafted file can make us send
+const DOCUMENT_MAX_LINES = 100_000;
+
+export interface TypeDrawDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: number; // ms since the epoch
+  canvas: {
+    roomId: string; // Where it was exported from; informational only
+    bounds: Bounds | null; // World-space box around every char
+    lineCount: number;
+    charCount: number;
+  };
+  lines: Line[];
+}
+
+export function createDocument(lines: Line[], roomId: string): TypeDrawDocument {
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    exportedAt: Date.now(),
+    canvas: {
+      roomId,
+      bounds: getLinesBounds(lines),
+      lineCount: lines.length,
+      charCount: lines.reduce((sum, line) => sum + line.chars.length, 0),
+    },
+    lines,
+  };
+}
+
+function invalid(message: string): never {
+  throw new ProtocolError('invalid_message', message);
+}
+
+// Parse and validate a .typedraw file. Throws ProtocolError.
+export function parseDocument(raw: string): TypeDrawDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    invalid('File is not valid JSON');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    invalid('File is not a Type Draw document');
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (obj.format !== DOCUMENT_FORMAT) invalid('File is not a Type Draw document');
+  if (typeof obj.version !== 'number' || !Number.isInteger(obj.version) || obj.version < 1) {
+    invalid('document.version: expected a positive integer');
+  }
+  if (obj.version > DOCUMENT_VERSION) {
+    invalid(`Document version ${obj.version} is newer than this app supports (${DOCUMENT_VERSION})`);
+  }
+  if (!Array.isArray(obj.lines) || obj.lines.length > DOCUMENT_MAX_LINES) {
+    invalid(`document.lines: expected an array of at most ${DOCUMENT_MAX_LINES} items`);
+  }
+
+  // Metadata is derived again rather than trusted
+  const lines = obj.lines.map((line, i) => readLine(line, `document.lines[${i}]`));
+  const canvas = typeof obj.canvas === 'object' && obj.canvas !== null ? obj.canvas as Record<string, unknown> : {};
+  const document = createDocument(lines, typeof canvas.roomId === 'string' ? canvas.roomId : '');
+  return {
+    ...document,
+    exportedAt: typeof obj.exportedAt === 'number' ? obj.exportedAt : document.exportedAt,
+  };
+}
+
+/**
+ * Copies of a document's lines ready to add to a room: every line and char
+ * gets a fresh id, so importing twice or into the source room never collides,
+ * and every line belongs to the importer.
+ */
+export function prepareImport(lines: Line[], userId: string, createId: () => string): Line[] {
+  return lines.map(line => ({
+    ...line,
+    id: createId(),
+    userId,
+    chars: line.chars.map(c => ({ ...c, id: createId() })),
+  }));
+}
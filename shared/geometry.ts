@@ -0,0 +1,71 @@
+import type { Char, Line, Point } from './protocol';
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Smallest box around the points, or null if there are none.
+// Reduces rather than spreading into Math.min, since a room can hold millions of chars.
+export function getBounds(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+  return points.reduce(
+    (acc, p) => ({
+      minX: Math.min(acc.minX, p.x),
+      minY: Math.min(acc.minY, p.y),
+      maxX: Math.max(acc.maxX, p.x),
+      maxY: Math.max(acc.maxY, p.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+}
+
+// Chars in world coordinates, i.e. offset by their line's origin
+export function getCharPositions(line: Line): Point[] {
+  return line.chars.map(c => ({ x: line.x + c.x, y: line.y + c.y }));
+}
+
+export function getLinesBounds(lines: Line[]): Bounds | null {
+  return getBounds(lines.flatMap(getCharPositions));
+}
+
+// Smallest box around both, either of which may be missing
+export function mergeBounds(a: Bounds | null, b: Bounds | null): Bounds | null {
+  if (!a || !b) return a ?? b;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
+
+// SVG transform turning a char around its own center, if it's rotated
+export function getCharTransform(char: Char): string | undefined {
+  return char.rotate ? `rotate(${char.rotate} ${char.x} ${char.y})` : undefined;
+}
+
+// Convert line characters into an SVG path string for textPath animation
+export function getLinePath(line: Line): string {
+  if (line.chars.length < 2) return '';
+  return `M ${line.chars.map(c => `${c.x},${c.y}`).join(' L ')}`;
+}
+
+// Calculate the total length of a line path (for animation timing)
+export function getLineLength(line: Line): number {
+  if (line.chars.length < 2) return 0;
+  let length = 0;
+  for (let i = 1; i < line.chars.length; i++) {
+    const dx = line.chars[i].x - line.chars[i - 1].x;
+    const dy = line.chars[i].y - line.chars[i - 1].y;
+    length += Math.sqrt(dx * dx + dy * dy);
+  }
+  return length;
+}
+
+// Flow animation speed: text slides along its line at 60px per second, one loop taking at least 2s
+export function getFlowDuration(line: Line): number {
+  return Math.max(2, getLineLength(line) / 60);
+}
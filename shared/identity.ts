@@ -0,0 +1,16 @@
+// A user's public id is derived from a secret token only their browser keeps.
+// Ids are shown to everyone in the room, so holding one proves nothing; holding
+// the token it was derived from does. Client and server derive it the same way,
+// the client so it knows its id before connecting.
+
+// Hex digits of the digest kept for the id: 128 bits, well within an id's length limit
+const USER_ID_LENGTH = 32;
+
+// The start of the token's SHA-256, as hex
+export async function getUserIdForToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)]
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, USER_ID_LENGTH);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { applyLineOp, createCharNodes, createLineDoc, materializeLines, restoreCharsOp, restoreLineOp, type LineDocs } from './operations';
+import type { LineDoc, LineOp } from './protocol';
+import type { Line } from '../types';
+
+function createDoc(): LineDoc {
+  const line: Line = {
+    id: 'line',
+    chars: [{ id: 'a', value: 'a', x: 0, y: 0 }, { id: 'b', value: 'b', x: 10, y: 0 }],
+    x: 0,
+    y: 0,
+    userId: 'alice',
+    color: '#000000',
+    fontSize: 18,
+    fontFamily: 'Inter',
+  };
+  return createLineDoc(line, { clock: 1, site: 'alice' });
+}
+
+function insertAfter(after: string, id: string, clock: number, site: string): LineOp {
+  return { type: 'insertChars', lineId: 'line', chars: createCharNodes([{ id, value: id, x: 0, y: 0 }], after, { clock, site }) };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+// What each replica shows after the line arrives and then the ops, in every order
+function applyInEveryOrder(ops: LineOp[]): Line[][] {
+  const start: LineDocs = { line: createDoc() };
+  return permutations(ops).map(order => materializeLines(order.reduce(applyLineOp, start)));
+}
+
+function expectConverged(results: Line[][]): Line[] {
+  results.forEach(result => expect(result).toEqual(results[0]));
+  return results[0];
+}
+
+describe('applyLineOp', () => {
+  it('converges on the same lines whatever order concurrent ops arrive in', () => {
+    const doc = createDoc();
+    const [line] = expectConverged(applyInEveryOrder([
+      insertAfter('b', 'c', 2, 'alice'),
+      insertAfter('b', 'd', 2, 'bob'),
+      { type: 'moveLine', lineId: 'line', pos: { value: { x: 5, y: 5 }, stamp: { clock: 3, site: 'alice' } } },
+      { type: 'moveLine', lineId: 'line', pos: { value: { x: 9, y: 9 }, stamp: { clock: 3, site: 'bob' } } },
+      { type: 'moveChars', lineId: 'line', chars: [{ id: 'a', pos: { x: 1, y: 1 } }], stamp: { clock: 4, site: 'alice' } },
+      { type: 'removeChars', lineId: 'line', charIds: ['a'], stamp: { clock: 4, site: 'alice' } },
+      restoreCharsOp(doc, ['a'], { clock: 4, site: 'bob' }),
+    ]));
+
+    expect(line.chars.map(c => c.id)).toEqual(['a', 'b', 'd', 'c']);
+    // Ties on the clock go to the larger site
+    expect({ x: line.x, y: line.y }).toEqual({ x: 9, y: 9 });
+    expect(line.chars[0]).toMatchObject({ x: 1, y: 1 });
+  });
+
+  it('keeps chars typed after a char deleted at the same time, in its place', () => {
+    const [line] = expectConverged(applyInEveryOrder([
+      { type: 'removeChars', lineId: 'line', charIds: ['a'], stamp: { clock: 2, site: 'alice' } },
+      insertAfter('a', 'x', 2, 'bob'),
+    ]));
+    expect(line.chars.map(c => c.id)).toEqual(['x', 'b']);
+  });
+
+  it('lets the later stamp decide between deleting and restoring a char', () => {
+    const doc = createDoc();
+    const remove = (clock: number): LineOp => ({ type: 'removeChars', lineId: 'line', charIds: ['b'], stamp: { clock, site: 'alice' } });
+
+    const [restored] = expectConverged(applyInEveryOrder([remove(2), restoreCharsOp(doc, ['b'], { clock: 3, site: 'alice' })]));
+    expect(restored.chars.map(c => c.id)).toEqual(['a', 'b']);
+
+    const [removed] = expectConverged(applyInEveryOrder([remove(3), restoreCharsOp(doc, ['b'], { clock: 2, site: 'bob' })]));
+    expect(removed.chars.map(c => c.id)).toEqual(['a']);
+  });
+
+  it('lets the later stamp decide between deleting and restoring a line', () => {
+    const doc = createDoc();
+    const remove = (clock: number, site: string): LineOp => ({ type: 'deleteLines', lineIds: ['line'], stamp: { clock, site } });
+
+    expect(expectConverged(applyInEveryOrder([remove(2, 'alice'), restoreLineOp(doc, { clock: 2, site: 'bob' })]))).toHaveLength(1);
+    expect(expectConverged(applyInEveryOrder([remove(2, 'bob'), restoreLineOp(doc, { clock: 2, site: 'alice' })]))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,220 @@
+import type { Char, CharMove, CharNode, CharPos, ClientMessage, Line, LineDoc, LineOp, Stamp } from './protocol';
+import { compareStamps, integrateChar, mergeLww } from './crdt';
+
+// Every replica's copy of the room: line docs by id, deleted ones included
+export type LineDocs = Record<string, LineDoc>;
+
+const LINE_OP_TYPES = new Set<string>(['addLine', 'insertChars', 'removeChars', 'moveLine', 'moveChars', 'transformLines', 'deleteLines']);
+
+export function isLineOp(message: ClientMessage): message is LineOp {
+  return LINE_OP_TYPES.has(message.type);
+}
+
+function updateLine(docs: LineDocs, lineId: string, update: (line: LineDoc) => LineDoc): LineDocs {
+  const line = docs[lineId];
+  // Ops for lines we've never seen have nothing to apply to
+  if (!line) return docs;
+  return { ...docs, [lineId]: update(line) };
+}
+
+// Apply a line operation to the docs, returning new docs.
+// Used by the server to update room state and by clients for both local and relayed ops.
+// Applying an op twice, or two ops in either order, gives the same result.
+export function applyLineOp(docs: LineDocs, op: LineOp): LineDocs {
+  switch (op.type) {
+    case 'addLine': {
+      const existing = docs[op.line.id];
+      if (!existing) return { ...docs, [op.line.id]: op.line };
+      return updateLine(docs, op.line.id, line => ({
+        ...line,
+        pos: mergeLww(line.pos, op.line.pos),
+        style: mergeLww(line.style, op.line.style),
+        deleted: mergeLww(line.deleted, op.line.deleted),
+        chars: op.line.chars.reduce(integrateChar, line.chars),
+      }));
+    }
+
+    case 'insertChars':
+      return updateLine(docs, op.lineId, line => ({
+        ...line,
+        chars: op.chars.reduce(integrateChar, line.chars),
+      }));
+
+    case 'removeChars': {
+      const charIds = new Set(op.charIds);
+      const deleted = { value: true, stamp: op.stamp };
+      return updateLine(docs, op.lineId, line => ({
+        ...line,
+        chars: line.chars.map(c => (charIds.has(c.id) ? { ...c, deleted: mergeLww(c.deleted, deleted) } : c)),
+      }));
+    }
+
+    case 'moveLine':
+      return updateLine(docs, op.lineId, line => ({
+        ...line,
+        pos: mergeLww(line.pos, op.pos),
+      }));
+
+    case 'moveChars':
+      return updateLine(docs, op.lineId, line => moveCharNodes(line, op.chars, op.stamp));
+
+    case 'transformLines':
+      return op.lines.reduce(
+        (acc, { lineId, pos, chars }) => updateLine(acc, lineId, line => ({
+          ...moveCharNodes(line, chars, op.stamp),
+          pos: mergeLww(line.pos, { value: pos, stamp: op.stamp }),
+        })),
+        docs
+      );
+
+    case 'deleteLines': {
+      const deleted = { value: true, stamp: op.stamp };
+      return op.lineIds.reduce(
+        (acc, lineId) => updateLine(acc, lineId, line => ({ ...line, deleted: mergeLww(line.deleted, deleted) })),
+        docs
+      );
+    }
+  }
+}
+
+function moveCharNodes(line: LineDoc, moves: CharMove[], stamp: Stamp): LineDoc {
+  if (moves.length === 0) return line;
+  const positions = new Map(moves.map(move => [move.id, move.pos]));
+  return {
+    ...line,
+    chars: line.chars.map(c => {
+      const pos = positions.get(c.id);
+      return pos ? { ...c, pos: mergeLww(c.pos, { value: pos, stamp }) } : c;
+    }),
+  };
+}
+
+// Lines an op changes
+export function getOpLineIds(op: LineOp): string[] {
+  switch (op.type) {
+    case 'addLine':
+      return [op.line.id];
+    case 'deleteLines':
+      return op.lineIds;
+    case 'transformLines':
+      return op.lines.map(l => l.lineId);
+    default:
+      return [op.lineId];
+  }
+}
+
+// Highest clock mentioned by an op, so a replica's Lamport clock can move past it
+export function getOpClock(op: LineOp): number {
+  switch (op.type) {
+    case 'addLine':
+      return getDocClock(op.line);
+    case 'insertChars':
+      return Math.max(0, ...op.chars.map(getCharClock));
+    case 'removeChars':
+    case 'moveChars':
+    case 'transformLines':
+    case 'deleteLines':
+      return op.stamp.clock;
+    case 'moveLine':
+      return op.pos.stamp.clock;
+  }
+}
+
+function getCharClock(char: CharNode): number {
+  return Math.max(char.stamp.clock, char.pos.stamp.clock, char.deleted.stamp.clock);
+}
+
+export function getDocClock(line: LineDoc): number {
+  return Math.max(
+    line.created.clock,
+    line.pos.stamp.clock,
+    line.style.stamp.clock,
+    line.deleted.stamp.clock,
+    ...line.chars.map(getCharClock)
+  );
+}
+
+function getCharPos({ x, y, rotate }: Char): CharPos {
+  return rotate === undefined ? { x, y } : { x, y, rotate };
+}
+
+// Chars typed in one go, each following the previous one; they can share a stamp
+// because none of them is inserted after the same char as another
+export function createCharNodes(chars: Char[], after: string | null, stamp: Stamp): CharNode[] {
+  let previous = after;
+  return chars.map(char => {
+    const node: CharNode = {
+      id: char.id,
+      value: char.value,
+      after: previous,
+      stamp,
+      pos: { value: getCharPos(char), stamp },
+      deleted: { value: false, stamp },
+    };
+    previous = char.id;
+    return node;
+  });
+}
+
+// Turn a rendered line into a fresh doc, with every register written at `stamp`
+export function createLineDoc(line: Line, stamp: Stamp): LineDoc {
+  return {
+    id: line.id,
+    userId: line.userId,
+    created: stamp,
+    pos: { value: { x: line.x, y: line.y }, stamp },
+    style: {
+      value: { color: line.color, fontSize: line.fontSize, fontFamily: line.fontFamily },
+      stamp,
+    },
+    deleted: { value: false, stamp },
+    chars: createCharNodes(line.chars, null, stamp),
+  };
+}
+
+// Bring deleted chars back. Their ids and places in the sequence never went away,
+// so re-sending them with a newer deleted register is enough.
+export function restoreCharsOp(line: LineDoc, charIds: string[], stamp: Stamp): LineOp {
+  const ids = new Set(charIds);
+  return {
+    type: 'insertChars',
+    lineId: line.id,
+    chars: line.chars
+      .filter(c => ids.has(c.id))
+      .map(c => ({ ...c, deleted: { value: false, stamp } })),
+  };
+}
+
+// Bring a deleted line back, merging into whatever the line holds now
+export function restoreLineOp(line: LineDoc, stamp: Stamp): LineOp {
+  return { type: 'addLine', line: { ...line, deleted: { value: false, stamp } } };
+}
+
+// Rendered lines are cached per doc object, so untouched lines keep their identity
+const renderedLines = new WeakMap<LineDoc, Line>();
+
+export function materializeLine(doc: LineDoc): Line {
+  const cached = renderedLines.get(doc);
+  if (cached) return cached;
+
+  const line: Line = {
+    id: doc.id,
+    chars: doc.chars
+      .filter(c => !c.deleted.value)
+      .map(c => ({ id: c.id, value: c.value, ...c.pos.value })),
+    x: doc.pos.value.x,
+    y: doc.pos.value.y,
+    userId: doc.userId,
+    ...doc.style.value,
+  };
+  renderedLines.set(doc, line);
+  return line;
+}
+
+// The visible lines, in creation order
+export function materializeLines(docs: LineDocs): Line[] {
+  return Object.values(docs)
+    .filter(doc => !doc.deleted.value)
+    .sort((a, b) => compareStamps(a.created, b.created) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map(materializeLine);
+}
@@ -0,0 +1,714 @@
+// Wire protocol shared by the Vite client and the PartyKit server.
+// Everything that crosses the socket is declared and validated here.
+
+// Bump when a message shape changes
+export const PROTOCOL_VERSION = 10;
+
+// Oldest client protocol the server still understands
+// (1 sent whole lines on every keystroke, 2 had no sequence numbers, 3 had no CRDT,
+// 4 had no char rotation, 5 can't read moveChars, 6 can't read transformLines,
+// 7 can't read batched cursors, 8 can't read presence, 9 named its own user id)
+export const MIN_PROTOCOL_VERSION = 10;
+
+// Cursor moves are sent at most once per tick by each client, and the server
+// passes on everyone's latest position together once per tick
+export const CURSOR_TICK_MS = 50;
+
+// Limits that keep a single message from bloating room state
+export const LIMITS = {
+  idLength: 64,
+  charValueLength: 32, // Room for multi-codepoint graphemes such as emoji sequences
+  charsPerLine: 5000,
+  charNodesPerLine: 20000, // Including deleted chars kept as tombstones
+  linesPerMessage: 2000,
+  coordinate: 1_000_000,
+  fontFamilyLength: 64,
+  thumbnailStrokes: 200,
+  thumbnailPoints: 32,
+  lobbyRooms: 100,
+  fontSize: { min: 4, max: 200 },
+};
+
+// Styles users can pick for themselves: any color, but only fonts the app loads
+export const USER_COLORS = ['#A6CEE3', '#1F78B4', '#B2DF8A', '#33A02C', '#FB9A99', '#E31A1C', '#FDBF6F'];
+export const USER_FONT_FAMILIES = ['Space Mono', 'Playfair Display', 'Inter'];
+export const USER_FONT_SIZES = [11, 18, 28];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Char {
+  id: string;
+  value: string;
+  x: number;
+  y: number;
+  rotate?: number; // Degrees clockwise around the char's center, e.g. to follow the path
+}
+
+// A line as rendered: the visible state of a LineDoc
+export interface Line {
+  id: string;
+  chars: Char[];
+  x: number; // Origin X offset for the whole line
+  y: number; // Origin Y offset for the whole line
+  // Multi-user properties
+  userId: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+}
+
+// --- Replicated document ---
+// Lines are replicated as CRDTs so ops commute and every replica converges
+// no matter the order they arrive in: chars form an RGA sequence, and line
+// position, style and deletion are last-writer-wins registers.
+
+// Lamport timestamp; site breaks ties so every stamp is unique
+export interface Stamp {
+  clock: number;
+  site: string;
+}
+
+export interface Lww<T> {
+  value: T;
+  stamp: Stamp;
+}
+
+export interface LineStyle {
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+}
+
+export interface CharNode {
+  id: string;
+  value: string;
+  after: string | null; // Char this was inserted after, null for the start of the line
+  stamp: Stamp; // Insertion time; orders chars inserted after the same one
+  pos: Lww<CharPos>; // Offset from the line origin
+  deleted: Lww<boolean>; // Deleted chars stay as tombstones to anchor later inserts
+}
+
+// Where a char sits, and how it's turned
+export interface CharPos extends Point {
+  rotate?: number;
+}
+
+export interface LineDoc {
+  id: string;
+  userId: string;
+  created: Stamp; // Orders lines for drawing
+  pos: Lww<Point>;
+  style: Lww<LineStyle>;
+  deleted: Lww<boolean>;
+  chars: CharNode[]; // In sequence order, tombstones included
+}
+
+// owner: everything, including clearing the room and assigning roles
+// editor: creates and edits their own lines
+// viewer: read-only
+export type Role = 'owner' | 'editor' | 'viewer';
+
+// What a user is up to, shown to everyone else
+export interface Presence {
+  mode: 'TYPING' | 'NAVIGATION';
+  activeLineId: string | null; // The line they're typing into
+  anchor: Point | null; // Where their next line will start, before they type it
+  isTyping: boolean; // Typed in the last moment
+}
+
+export const IDLE_PRESENCE: Presence = { mode: 'TYPING', activeLineId: null, anchor: null, isTyping: false };
+
+export interface User {
+  id: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+  cursor: Point;
+  role: Role;
+  presence: Presence;
+}
+
+export type ErrorCode =
+  | 'invalid_message' // Payload failed validation
+  | 'forbidden' // Sender lacks ownership or role for the change
+  | 'conflict' // Change doesn't fit the current room state
+  | 'protocol_mismatch'; // Client speaks a protocol version the server can't
+
+// Incremental changes to the room's line docs, sent by clients and relayed by the server.
+// Applying them is idempotent and order-independent (see shared/operations.ts).
+export type LineOp =
+  | { type: 'addLine'; line: LineDoc } // Also merges into an existing line, e.g. to restore it
+  | { type: 'insertChars'; lineId: string; chars: CharNode[] }
+  | { type: 'removeChars'; lineId: string; charIds: string[]; stamp: Stamp }
+  | { type: 'moveLine'; lineId: string; pos: Lww<Point> }
+  | { type: 'moveChars'; lineId: string; chars: CharMove[]; stamp: Stamp } // E.g. reflowing after an edit
+  | { type: 'transformLines'; lines: LineTransform[]; stamp: Stamp } // Group move, rotate or scale
+  | { type: 'deleteLines'; lineIds: string[]; stamp: Stamp };
+
+export interface CharMove {
+  id: string;
+  pos: CharPos;
+}
+
+// Where one line of a group transform ends up; chars not listed stay where they are
+export interface LineTransform {
+  lineId: string;
+  pos: Point;
+  chars: CharMove[];
+}
+
+// An op as recorded by the server, numbered in the order it was applied
+export interface LoggedOp {
+  seq: number;
+  origin: string; // Client id of the sender
+  op: LineOp;
+}
+
+// An op as kept in the room's durable history, for replaying how the canvas came together
+export interface TimelineEntry {
+  seq: number;
+  time: number; // When the server applied it, in ms since the epoch
+  userId: string; // Author
+  op: LineOp;
+}
+
+// Part of a room's history, served over HTTP at GET /parties/main/:roomId?timeline&after=<seq>
+export interface TimelinePage {
+  entries: TimelineEntry[]; // Oldest first, all after `after`
+  next: number | null; // What to ask for after next, or null at the end
+}
+
+// How a (re)connecting client catches up: only the ops it missed, or the whole room
+export type Catchup =
+  | { kind: 'ops'; ops: LoggedOp[] }
+  | { kind: 'snapshot'; lines: LineDoc[] };
+
+// Message types for PartyKit communication
+export type ClientMessage =
+  | { type: 'cursor'; cursor: Point }
+  | { type: 'presence'; presence: Presence }
+  | LineOp
+  | { type: 'clearAll'; stamp: Stamp } // Owner only; the server turns it into deleteLines
+  | { type: 'setRole'; userId: string; role: Exclude<Role, 'owner'> }
+  | { type: 'updateUser'; style: LineStyle }; // Own style, used for lines drawn from now on
+
+// Everything but cursor moves and presence is numbered per client, so the server can
+// acknowledge it and ignore it if it is resent after a reconnect
+export type NumberedClientMessage = ClientMessage & { clientSeq?: number };
+
+export type ServerMessage =
+  | {
+      type: 'init';
+      protocolVersion: number;
+      userId: string;
+      user: User;
+      users: Record<string, User>;
+      seq: number; // Room version the catchup brings the client up to
+      clientSeq: number; // Last message from this client the server has processed
+      catchup: Catchup;
+    }
+  | { type: 'userJoined'; user: User }
+  | { type: 'userLeft'; userId: string }
+  | { type: 'userUpdated'; user: User }
+  | { type: 'cursors'; cursors: Record<string, Point> } // Latest position of each user who moved
+  | { type: 'presence'; userId: string; presence: Presence }
+  | { type: 'sync'; lines: LineDoc[]; seq: number; clientSeq?: number }
+  | { type: 'ack'; seq: number; clientSeq: number }
+  | (LineOp & { seq: number })
+  | { type: 'error'; code: ErrorCode; message: string; requestType?: string };
+
+// --- Lobby ---
+// Served over HTTP rather than the socket: each room describes itself at
+// GET /parties/main/:roomId, and the lobby party lists rooms at GET /parties/lobby/index.
+// Rooms POST { id } to the lobby when they change; the lobby then fetches their
+// summary itself, so it never takes a room's description on trust.
+
+export const LOBBY_PARTY = 'lobby';
+export const LOBBY_ID = 'index';
+
+// Thumbnails are drawn in a square of this size
+export const THUMBNAIL_SIZE = 100;
+
+export interface ThumbnailStroke {
+  color: string;
+  points: Point[];
+}
+
+export interface RoomSummary {
+  id: string;
+  userCount: number;
+  lineCount: number;
+  updatedAt: number; // Time of the last change, in ms since the epoch
+  thumbnail: ThumbnailStroke[];
+}
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// --- Validators ---
+// Each reader checks an untrusted value and returns a fresh copy holding only known fields.
+
+type Reader<T> = (value: unknown, path: string) => T;
+
+function fail(path: string, expected: string): never {
+  throw new ProtocolError('invalid_message', `${path}: expected ${expected}`);
+}
+
+function readRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function readString(value: unknown, path: string, maxLength: number): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > maxLength) {
+    fail(path, `a non-empty string of at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function readNumber(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    fail(path, `a finite number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function readArray<T>(value: unknown, path: string, maxLength: number, readItem: Reader<T>): T[] {
+  if (!Array.isArray(value) || value.length > maxLength) {
+    fail(path, `an array of at most ${maxLength} items`);
+  }
+  return value.map((item, i) => readItem(item, `${path}[${i}]`));
+}
+
+function readOneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) {
+    fail(path, `one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+const readId: Reader<string> = (value, path) => readString(value, path, LIMITS.idLength);
+
+const readCoordinate: Reader<number> = (value, path) =>
+  readNumber(value, path, -LIMITS.coordinate, LIMITS.coordinate);
+
+const readColor: Reader<string> = (value, path) => {
+  if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+    fail(path, 'a #rrggbb color');
+  }
+  return value;
+};
+
+const readFontFamily: Reader<string> = (value, path) =>
+  readString(value, path, LIMITS.fontFamilyLength);
+
+const readFontSize: Reader<number> = (value, path) =>
+  readNumber(value, path, LIMITS.fontSize.min, LIMITS.fontSize.max);
+
+export const readPoint: Reader<Point> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    x: readCoordinate(obj.x, `${path}.x`),
+    y: readCoordinate(obj.y, `${path}.y`),
+  };
+};
+
+const readRotation: Reader<number> = (value, path) => readNumber(value, path, -360, 360);
+
+export const readChar: Reader<Char> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    value: readString(obj.value, `${path}.value`, LIMITS.charValueLength),
+    x: readCoordinate(obj.x, `${path}.x`),
+    y: readCoordinate(obj.y, `${path}.y`),
+    ...(obj.rotate !== undefined && { rotate: readRotation(obj.rotate, `${path}.rotate`) }),
+  };
+};
+
+const readCharPos: Reader<CharPos> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    ...readPoint(obj, path),
+    ...(obj.rotate !== undefined && { rotate: readRotation(obj.rotate, `${path}.rotate`) }),
+  };
+};
+
+export const readLine: Reader<Line> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    chars: readArray(obj.chars, `${path}.chars`, LIMITS.charsPerLine, readChar),
+    x: readCoordinate(obj.x, `${path}.x`),
+    y: readCoordinate(obj.y, `${path}.y`),
+    userId: readId(obj.userId, `${path}.userId`),
+    color: readColor(obj.color, `${path}.color`),
+    fontSize: readFontSize(obj.fontSize, `${path}.fontSize`),
+    fontFamily: readFontFamily(obj.fontFamily, `${path}.fontFamily`),
+  };
+};
+
+const ROLES: readonly Role[] = ['owner', 'editor', 'viewer'];
+
+const PRESENCE_MODES: readonly Presence['mode'][] = ['TYPING', 'NAVIGATION'];
+
+const readPresence: Reader<Presence> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    mode: readOneOf(obj.mode, `${path}.mode`, PRESENCE_MODES),
+    activeLineId: obj.activeLineId === null ? null : readId(obj.activeLineId, `${path}.activeLineId`),
+    anchor: obj.anchor === null ? null : readPoint(obj.anchor, `${path}.anchor`),
+    isTyping: readBoolean(obj.isTyping, `${path}.isTyping`),
+  };
+};
+
+const readUser: Reader<User> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    color: readColor(obj.color, `${path}.color`),
+    fontSize: readFontSize(obj.fontSize, `${path}.fontSize`),
+    fontFamily: readFontFamily(obj.fontFamily, `${path}.fontFamily`),
+    cursor: readPoint(obj.cursor, `${path}.cursor`),
+    role: readOneOf(obj.role, `${path}.role`, ROLES),
+    presence: readPresence(obj.presence, `${path}.presence`),
+  };
+};
+
+const readSeq: Reader<number> = (value, path) => {
+  if (!Number.isSafeInteger(value) || (value as number) < 0) fail(path, 'a non-negative integer');
+  return value as number;
+};
+
+const readBoolean: Reader<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') fail(path, 'a boolean');
+  return value;
+};
+
+export const readStamp: Reader<Stamp> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    clock: readSeq(obj.clock, `${path}.clock`),
+    site: readId(obj.site, `${path}.site`),
+  };
+};
+
+function readLww<T>(value: unknown, path: string, readValue: Reader<T>): Lww<T> {
+  const obj = readRecord(value, path);
+  return {
+    value: readValue(obj.value, `${path}.value`),
+    stamp: readStamp(obj.stamp, `${path}.stamp`),
+  };
+}
+
+const readLineStyle: Reader<LineStyle> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    color: readColor(obj.color, `${path}.color`),
+    fontSize: readFontSize(obj.fontSize, `${path}.fontSize`),
+    fontFamily: readFontFamily(obj.fontFamily, `${path}.fontFamily`),
+  };
+};
+
+const readUserStyle: Reader<LineStyle> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    color: readColor(obj.color, `${path}.color`),
+    fontSize: readFontSize(obj.fontSize, `${path}.fontSize`),
+    fontFamily: readOneOf(obj.fontFamily, `${path}.fontFamily`, USER_FONT_FAMILIES),
+  };
+};
+
+const readCharNode: Reader<CharNode> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    value: readString(obj.value, `${path}.value`, LIMITS.charValueLength),
+    after: obj.after === null ? null : readId(obj.after, `${path}.after`),
+    stamp: readStamp(obj.stamp, `${path}.stamp`),
+    pos: readLww(obj.pos, `${path}.pos`, readCharPos),
+    deleted: readLww(obj.deleted, `${path}.deleted`, readBoolean),
+  };
+};
+
+export const readLineDoc: Reader<LineDoc> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    userId: readId(obj.userId, `${path}.userId`),
+    created: readStamp(obj.created, `${path}.created`),
+    pos: readLww(obj.pos, `${path}.pos`, readPoint),
+    style: readLww(obj.style, `${path}.style`, readLineStyle),
+    deleted: readLww(obj.deleted, `${path}.deleted`, readBoolean),
+    chars: readArray(obj.chars, `${path}.chars`, LIMITS.charNodesPerLine, readCharNode),
+  };
+};
+
+const readCharMove: Reader<CharMove> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    pos: readCharPos(obj.pos, `${path}.pos`),
+  };
+};
+
+const readLineTransform: Reader<LineTransform> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    lineId: readId(obj.lineId, `${path}.lineId`),
+    pos: readPoint(obj.pos, `${path}.pos`),
+    chars: readArray(obj.chars, `${path}.chars`, LIMITS.charsPerLine, readCharMove),
+  };
+};
+
+// Shared by both directions: the server relays ops exactly as it accepted them.
+// maxLines is lifted for the server, which may delete the whole room at once.
+// Returns null for messages that aren't line ops.
+function readLineOp(data: Record<string, unknown>, path: string, maxLines: number): LineOp | null {
+  switch (data.type) {
+    case 'addLine':
+      return { type: 'addLine', line: readLineDoc(data.line, `${path}.line`) };
+    case 'insertChars':
+      return {
+        type: 'insertChars',
+        lineId: readId(data.lineId, `${path}.lineId`),
+        chars: readArray(data.chars, `${path}.chars`, LIMITS.charsPerLine, readCharNode),
+      };
+    case 'removeChars':
+      return {
+        type: 'removeChars',
+        lineId: readId(data.lineId, `${path}.lineId`),
+        charIds: readArray(data.charIds, `${path}.charIds`, LIMITS.charsPerLine, readId),
+        stamp: readStamp(data.stamp, `${path}.stamp`),
+      };
+    case 'moveLine':
+      return {
+        type: 'moveLine',
+        lineId: readId(data.lineId, `${path}.lineId`),
+        pos: readLww(data.pos, `${path}.pos`, readPoint),
+      };
+    case 'moveChars':
+      return {
+        type: 'moveChars',
+        lineId: readId(data.lineId, `${path}.lineId`),
+        chars: readArray(data.chars, `${path}.chars`, LIMITS.charsPerLine, readCharMove),
+        stamp: readStamp(data.stamp, `${path}.stamp`),
+      };
+    case 'transformLines':
+      return {
+        type: 'transformLines',
+        lines: readArray(data.lines, `${path}.lines`, maxLines, readLineTransform),
+        stamp: readStamp(data.stamp, `${path}.stamp`),
+      };
+    case 'deleteLines':
+      return {
+        type: 'deleteLines',
+        lineIds: readArray(data.lineIds, `${path}.lineIds`, maxLines, readId),
+        stamp: readStamp(data.stamp, `${path}.stamp`),
+      };
+    default:
+      return null;
+  }
+}
+
+const readLoggedOp: Reader<LoggedOp> = (value, path) => {
+  const obj = readRecord(value, path);
+  const op = readLineOp(readRecord(obj.op, `${path}.op`), `${path}.op`, Infinity);
+  if (!op) fail(`${path}.op.type`, 'a line op type');
+  return {
+    seq: readSeq(obj.seq, `${path}.seq`),
+    origin: readId(obj.origin, `${path}.origin`),
+    op,
+  };
+};
+
+export const readTimelineEntry: Reader<TimelineEntry> = (value, path) => {
+  const obj = readRecord(value, path);
+  const op = readLineOp(readRecord(obj.op, `${path}.op`), `${path}.op`, Infinity);
+  if (!op) fail(`${path}.op.type`, 'a line op type');
+  return {
+    seq: readSeq(obj.seq, `${path}.seq`),
+    time: readSeq(obj.time, `${path}.time`),
+    userId: readId(obj.userId, `${path}.userId`),
+    op,
+  };
+};
+
+const readCatchup: Reader<Catchup> = (value, path) => {
+  const obj = readRecord(value, path);
+  if (obj.kind === 'ops') {
+    return { kind: 'ops', ops: readArray(obj.ops, `${path}.ops`, Infinity, readLoggedOp) };
+  }
+  if (obj.kind === 'snapshot') {
+    return { kind: 'snapshot', lines: readArray(obj.lines, `${path}.lines`, Infinity, readLineDoc) };
+  }
+  return fail(`${path}.kind`, 'ops or snapshot');
+};
+
+function parseJson(raw: string): Record<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('invalid_message', 'message is not valid JSON');
+  }
+  const obj = readRecord(data, 'message');
+  if (typeof obj.type !== 'string') fail('message.type', 'a string');
+  return obj;
+}
+
+// Parse and validate a message sent by a client. Throws ProtocolError.
+export function parseClientMessage(raw: string): NumberedClientMessage {
+  const data = parseJson(raw);
+  const message = readClientMessage(data);
+  if (data.clientSeq === undefined) return message;
+  return { ...message, clientSeq: readSeq(data.clientSeq, 'message.clientSeq') };
+}
+
+function readClientMessage(data: Record<string, unknown>): ClientMessage {
+  const op = readLineOp(data, 'message', LIMITS.linesPerMessage);
+  if (op) return op;
+
+  switch (data.type) {
+    case 'cursor':
+      return { type: 'cursor', cursor: readPoint(data.cursor, 'cursor') };
+    case 'presence':
+      return { type: 'presence', presence: readPresence(data.presence, 'presence') };
+    case 'clearAll':
+      return { type: 'clearAll', stamp: readStamp(data.stamp, 'stamp') };
+    case 'setRole':
+      return {
+        type: 'setRole',
+        userId: readId(data.userId, 'userId'),
+        role: readOneOf(data.role, 'role', ['editor', 'viewer'] as const),
+      };
+    case 'updateUser':
+      return { type: 'updateUser', style: readUserStyle(data.style, 'style') };
+    default:
+      return fail('message.type', 'a known client message type');
+  }
+}
+
+const ERROR_CODES: readonly ErrorCode[] = ['invalid_message', 'forbidden', 'conflict', 'protocol_mismatch'];
+
+// Parse and validate a message sent by the server. Throws ProtocolError.
+export function parseServerMessage(raw: string): ServerMessage {
+  const data = parseJson(raw);
+  const op = readLineOp(data, 'message', Infinity);
+  if (op) return { ...op, seq: readSeq(data.seq, 'message.seq') };
+
+  switch (data.type) {
+    case 'init': {
+      const users: Record<string, User> = {};
+      Object.entries(readRecord(data.users, 'users')).forEach(([id, user]) => {
+        users[id] = readUser(user, `users.${id}`);
+      });
+      return {
+        type: 'init',
+        protocolVersion: readNumber(data.protocolVersion, 'protocolVersion', 0, Number.MAX_SAFE_INTEGER),
+        userId: readId(data.userId, 'userId'),
+        user: readUser(data.user, 'user'),
+        users,
+        seq: readSeq(data.seq, 'seq'),
+        clientSeq: readSeq(data.clientSeq, 'clientSeq'),
+        catchup: readCatchup(data.catchup, 'catchup'),
+      };
+    }
+    case 'userJoined':
+      return { type: 'userJoined', user: readUser(data.user, 'user') };
+    case 'userLeft':
+      return { type: 'userLeft', userId: readId(data.userId, 'userId') };
+    case 'userUpdated':
+      return { type: 'userUpdated', user: readUser(data.user, 'user') };
+    case 'cursors': {
+      const cursors: Record<string, Point> = {};
+      Object.entries(readRecord(data.cursors, 'cursors')).forEach(([id, cursor]) => {
+        cursors[readId(id, 'cursors key')] = readPoint(cursor, `cursors.${id}`);
+      });
+      return { type: 'cursors', cursors };
+    }
+    case 'presence':
+      return { type: 'presence', userId: readId(data.userId, 'userId'), presence: readPresence(data.presence, 'presence') };
+    case 'sync':
+      // The whole room can exceed the per-message limit clients are held to
+      return {
+        type: 'sync',
+        lines: readArray(data.lines, 'lines', Infinity, readLineDoc),
+        seq: readSeq(data.seq, 'seq'),
+        ...(data.clientSeq !== undefined && { clientSeq: readSeq(data.clientSeq, 'clientSeq') }),
+      };
+    case 'ack':
+      return { type: 'ack', seq: readSeq(data.seq, 'seq'), clientSeq: readSeq(data.clientSeq, 'clientSeq') };
+    case 'error':
+      return {
+        type: 'error',
+        code: readOneOf(data.code, 'code', ERROR_CODES),
+        message: readString(data.message, 'message', Infinity),
+        ...(data.requestType !== undefined && { requestType: readString(data.requestType, 'requestType', 64) }),
+      };
+    default:
+      return fail('message.type', 'a known server message type');
+  }
+}
+
+const readThumbnailStroke: Reader<ThumbnailStroke> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    color: readColor(obj.color, `${path}.color`),
+    points: readArray(obj.points, `${path}.points`, LIMITS.thumbnailPoints, readPoint),
+  };
+};
+
+const readRoomSummary: Reader<RoomSummary> = (value, path) => {
+  const obj = readRecord(value, path);
+  return {
+    id: readId(obj.id, `${path}.id`),
+    userCount: readSeq(obj.userCount, `${path}.userCount`),
+    lineCount: readSeq(obj.lineCount, `${path}.lineCount`),
+    updatedAt: readSeq(obj.updatedAt, `${path}.updatedAt`),
+    thumbnail: readArray(obj.thumbnail, `${path}.thumbnail`, LIMITS.thumbnailStrokes, readThumbnailStroke),
+  };
+};
+
+// HTTP bodies carry no message type
+function parseBody(raw: string): Record<string, unknown> {
+  try {
+    return readRecord(JSON.parse(raw), 'body');
+  } catch (e) {
+    if (e instanceof ProtocolError) throw e;
+    throw new ProtocolError('invalid_message', 'body is not valid JSON');
+  }
+}
+
+// Parse a room's own description of itself. Throws ProtocolError.
+export function parseRoomSummary(raw: string): RoomSummary {
+  return readRoomSummary(parseBody(raw), 'body');
+}
+
+// Parse the lobby's room list. Throws ProtocolError.
+export function parseRoomList(raw: string): RoomSummary[] {
+  return readArray(parseBody(raw).rooms, 'body.rooms', LIMITS.lobbyRooms, readRoomSummary);
+}
+
+// Parse a room's notice that it changed, returning its id. Throws ProtocolError.
+export function parseRoomNotice(raw: string): string {
+  return readId(parseBody(raw).id, 'body.id');
+}
+
+// Parse a page of a room's timeline. Throws ProtocolError.
+export function parseTimelinePage(raw: string): TimelinePage {
+  const body = parseBody(raw);
+  return {
+    entries: readArray(body.entries, 'body.entries', Infinity, readTimelineEntry),
+    next: body.next === null ? null : readSeq(body.next, 'body.next'),
+  };
+}
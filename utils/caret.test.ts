@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getCaretIndexAt, getCaretPlacement, reflowChars } from './caret';
+import type { Char, Line } from '../types';
+
+// Without a canvas to measure with, every char advances 0.6 of the font size: 6 here
+const FONT = { fontFamily: 'Inter', fontSize: 10 };
+
+function createChars(points: Array<{ x: number; y: number; rotate?: number }>): Char[] {
+  return points.map((p, i) => ({ id: `c${i}`, value: 'a', ...p }));
+}
+
+function createLine(chars: Char[]): Line {
+  return { id: 'line', chars, x: 0, y: 0, userId: 'user', color: '#000000', ...FONT };
+}
+
+describe('getCaretPlacement', () => {
+  it('puts the caret between chars, or half a char past either end', () => {
+    const line = createLine(createChars([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }]));
+    expect([0, 1, 2, 3].map(i => getCaretPlacement(line, i).point.x)).toEqual([-5, 5, 15, 25]);
+  });
+
+  it('turns the caret with the line', () => {
+    const line = createLine(createChars([{ x: 0, y: 0 }, { x: 0, y: 10 }]));
+    expect(getCaretPlacement(line, 1)).toEqual({ point: { x: 0, y: 5 }, angle: 90 });
+  });
+});
+
+describe('getCaretIndexAt', () => {
+  const line = createLine(createChars([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }]));
+
+  it('finds the nearest gap between chars', () => {
+    expect(getCaretIndexAt(line, { x: 4, y: 3 })).toBe(1);
+    expect(getCaretIndexAt(line, { x: 16, y: -8 })).toBe(2);
+  });
+
+  it('clamps to the ends of the line', () => {
+    expect(getCaretIndexAt(line, { x: -100, y: 0 })).toBe(0);
+    expect(getCaretIndexAt(line, { x: 100, y: 0 })).toBe(3);
+  });
+
+  it('works on lines with one char or none', () => {
+    expect(getCaretIndexAt(createLine([]), { x: 10, y: 10 })).toBe(0);
+    const single = createLine(createChars([{ x: 0, y: 0 }]));
+    expect(getCaretIndexAt(single, { x: -3, y: 0 })).toBe(0);
+    expect(getCaretIndexAt(single, { x: 3, y: 0 })).toBe(1);
+  });
+});
+
+describe('reflowChars', () => {
+  const path = [{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 12, y: 0 }, { x: 18, y: 0 }];
+
+  it('closes the gap a deleted char leaves', () => {
+    const [first, , ...rest] = createChars(path);
+    expect(reflowChars([first, ...rest], 1, path, FONT)).toEqual([
+      { id: 'c2', pos: { x: 6, y: 0 } },
+      { id: 'c3', pos: { x: 12, y: 0 } },
+    ]);
+  });
+
+  it('makes room for an inserted char, carrying on straight past the end of the path', () => {
+    const chars = createChars(path);
+    const inserted: Char = { id: 'new', value: 'a', x: 0, y: 0 };
+    const moves = reflowChars([chars[0], inserted, ...chars.slice(1)], 1, path, FONT);
+    expect(moves).toEqual([
+      { id: 'new', pos: { x: 6, y: 0 } },
+      { id: 'c1', pos: { x: 12, y: 0 } },
+      { id: 'c2', pos: { x: 18, y: 0 } },
+      { id: 'c3', pos: { x: 24, y: 0 } },
+    ]);
+  });
+
+  it('leaves chars already in place alone', () => {
+    expect(reflowChars(createChars(path), 0, path, FONT)).toEqual([]);
+  });
+
+  it('turns rotated chars to the direction of the path where they land', () => {
+    const vertical = [{ x: 0, y: 0 }, { x: 0, y: 6 }, { x: 0, y: 12 }];
+    const chars = createChars([{ x: 0, y: 0, rotate: 0 }, { x: 0, y: 6, rotate: 0 }, { x: 0, y: 12, rotate: 0 }]);
+    const moves = reflowChars(chars, 1, vertical, FONT);
+    expect(moves.map(move => move.pos)).toEqual([{ x: 0, y: 6, rotate: 90 }, { x: 0, y: 12, rotate: 90 }]);
+  });
+});
@@ -0,0 +1,106 @@
+import { Char, Line, Point } from '../types';
+import type { CharMove } from '../shared/protocol';
+import { createGuide, getGuideAngle, getGuideLength, getGuidePoint, type Guide } from './layout';
+import { getCharSpacing } from './glyphs';
+
+type LineFont = Pick<Line, 'fontFamily' | 'fontSize'>;
+
+export interface CaretPlacement {
+  point: Point; // Relative to the line origin
+  angle: number; // Direction of the line there, in degrees
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Where the caret sits when index chars come before it: halfway between its
+ * neighbours, or half a char beyond the first or last one.
+ */
+export function getCaretPlacement(line: Line, index: number): CaretPlacement {
+  const { chars } = line;
+  if (chars.length === 0) return { point: { x: 0, y: 0 }, angle: 0 };
+
+  if (chars.length === 1) {
+    const angle = chars[0].rotate ?? 0;
+    const half = (index === 0 ? -line.fontSize : line.fontSize) / 2;
+    const radians = angle * Math.PI / 180;
+    return { point: { x: chars[0].x + Math.cos(radians) * half, y: chars[0].y + Math.sin(radians) * half }, angle };
+  }
+
+  // The two chars whose direction the caret follows
+  const i = Math.min(Math.max(index, 1), chars.length - 1);
+  const before = chars[i - 1];
+  const after = chars[i];
+  const angle = Math.atan2(after.y - before.y, after.x - before.x) * 180 / Math.PI;
+
+  let point = midpoint(before, after);
+  if (index === 0) point = { x: 2 * before.x - point.x, y: 2 * before.y - point.y };
+  if (index === chars.length) point = { x: 2 * after.x - point.x, y: 2 * after.y - point.y };
+  return { point, angle };
+}
+
+// Caret index of the gap closest to a point relative to the line origin
+export function getCaretIndexAt(line: Line, point: Point): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let index = 0; index <= line.chars.length; index++) {
+    const gap = getCaretPlacement(line, index).point;
+    const distance = Math.hypot(gap.x - point.x, gap.y - point.y);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Point along the guide, carrying on in a straight line past its end
+function getExtendedPoint(guide: Guide, distance: number, fallbackAngle: number): Point {
+  const length = getGuideLength(guide);
+  const point = getGuidePoint(guide, Math.min(distance, length));
+  if (!point || distance <= length) return point ?? { x: 0, y: 0 };
+
+  const angle = guide.points.length > 1 ? getGuideAngle(guide, length) : fallbackAngle;
+  const radians = angle * Math.PI / 180;
+  return {
+    x: point.x + Math.cos(radians) * (distance - length),
+    y: point.y + Math.sin(radians) * (distance - length),
+  };
+}
+
+/**
+ * Moves that set chars[from] onward one after another along path, the
+ * centers the line's chars had before an edit. Chars before `from` are
+ * untouched, so the text after an insert or delete slides along the shape
+ * the line already had. Rotated chars are turned to match where they land.
+ */
+export function reflowChars(chars: Char[], from: number, path: Point[], font: LineFont): CharMove[] {
+  if (path.length === 0) return [];
+
+  // Plain points, so moves never carry along the rest of a char
+  const guide = createGuide(path.map(({ x, y }) => ({ x, y })));
+  // Keep the spacing to the last char that stays put; with none, start where the line started
+  const base = Math.max(from - 1, 0);
+  const fallbackAngle = chars[base]?.rotate ?? 0;
+  let distance = from > 0 ? guide.lengths[Math.min(base, guide.lengths.length - 1)] : 0;
+
+  const moves: CharMove[] = [];
+  for (let i = from; i < chars.length; i++) {
+    if (i > base) distance += getCharSpacing(chars[i - 1].value, chars[i].value, font);
+
+    const char = chars[i];
+    const point = getExtendedPoint(guide, distance, fallbackAngle);
+    const rotate = char.rotate === undefined
+      ? undefined
+      : guide.points.length > 1
+        ? Math.round(getGuideAngle(guide, Math.min(distance, getGuideLength(guide))) * 10) / 10
+        : fallbackAngle;
+
+    if (point.x !== char.x || point.y !== char.y || rotate !== char.rotate) {
+      moves.push({ id: char.id, pos: rotate === undefined ? point : { ...point, rotate } });
+    }
+  }
+  return moves;
+}
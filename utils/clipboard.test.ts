@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { centerLinesOn, createTextLines, readLinesFromClipboard, writeLinesToClipboard } from './clipboard';
+import type { Line } from '../types';
+
+// Just the part of DataTransfer the clipboard code uses
+function createDataTransfer(): DataTransfer {
+  const data = new Map<string, string>();
+  return {
+    setData: (type: string, value: string) => data.set(type, value),
+    getData: (type: string) => data.get(type) ?? '',
+  } as unknown as DataTransfer;
+}
+
+const TEMPLATE = { userId: 'user', color: '#000000', fontSize: 10, fontFamily: 'Inter' };
+
+function createIds() {
+  let next = 0;
+  return () => `id-${next++}`;
+}
+
+function createLine(id: string, text: string, x = 0, y = 0): Line {
+  return { ...TEMPLATE, id, chars: [...text].map((value, i) => ({ id: `${id}-${i}`, value, x: i * 6, y: 0 })), x, y };
+}
+
+describe('writeLinesToClipboard and readLinesFromClipboard', () => {
+  it('bring back the lines that were copied, with their text for other apps', () => {
+    const lines = [createLine('a', 'hello'), createLine('b', 'world', 0, 20)];
+    const data = createDataTransfer();
+    writeLinesToClipboard(data, lines, 'room');
+
+    expect(readLinesFromClipboard(data)).toEqual(lines);
+    expect(data.getData('text/plain')).toBe('hello\nworld');
+  });
+
+  it('leave plain text to be pasted as text', () => {
+    const data = createDataTransfer();
+    data.setData('text/plain', 'hello');
+    expect(readLinesFromClipboard(data)).toBeNull();
+  });
+
+  it('ignore lines that don\'t parse', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const data = createDataTransfer();
+    data.setData('application/x-typedraw', '{"format":"typedraw","version":1,"lines":[{"id":1}]}');
+    expect(readLinesFromClipboard(data)).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('createTextLines', () => {
+  it('sets each row of text as a line under the last, skipping empty rows', () => {
+    const lines = createTextLines('ab\r\n\ncd', { x: 100, y: 200 }, TEMPLATE, createIds());
+    expect(lines.map(line => line.chars.map(c => c.value).join(''))).toEqual(['ab', 'cd']);
+    expect(lines.map(line => ({ x: line.x, y: line.y }))).toEqual([{ x: 100, y: 200 }, { x: 100, y: 230 }]);
+    expect(lines[0].chars.map(c => c.x)).toEqual([0, 6]);
+  });
+
+  it('runs right-to-left rows leftward', () => {
+    const [line] = createTextLines('שלום', { x: 0, y: 0 }, TEMPLATE, createIds());
+    expect(line.chars.map(c => c.x)).toEqual([0, -6, -12, -18]);
+  });
+
+  it('gives every line and char its own id', () => {
+    const lines = createTextLines('ab\ncd', { x: 0, y: 0 }, TEMPLATE, createIds());
+    const ids = lines.flatMap(line => [line.id, ...line.chars.map(c => c.id)]);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('centerLinesOn', () => {
+  it('moves the lines together so their bounds are centered on the point', () => {
+    const lines = centerLinesOn([createLine('a', 'abc'), createLine('b', 'abc', 0, 20)], { x: 100, y: 100 });
+    expect(lines.map(line => ({ x: line.x, y: line.y }))).toEqual([{ x: 94, y: 90 }, { x: 94, y: 110 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { Line, Point } from '../types';
+import { createDocument, parseDocument } from '../shared/document';
+import { getLinesBounds } from '../shared/geometry';
+import { getCharSpacing } from './glyphs';
+import { getTypedChars, isRtlText } from './text';
+
+// Copied lines travel as a .typedraw document under their own type, so pasting
+// in another tab or room brings back the lines themselves; everything else
+// reads the text/plain copy instead
+const CLIPBOARD_TYPE = 'application/x-typedraw';
+
+// Pasted text is set one line under another, this many font sizes apart
+const TEXT_LINE_HEIGHT = 1.5;
+
+// What the lines say, one per row
+export function getLinesText(lines: Line[]): string {
+  return lines.map(line => line.chars.map(c => c.value).join('')).join('\n');
+}
+
+export function writeLinesToClipboard(data: DataTransfer, lines: Line[], roomId: string) {
+  data.setData(CLIPBOARD_TYPE, JSON.stringify(createDocument(lines, roomId)));
+  data.setData('text/plain', getLinesText(lines));
+}
+
+// Lines copied from Type Draw, or null if the clipboard holds something else
+export function readLinesFromClipboard(data: DataTransfer): Line[] | null {
+  const raw = data.getData(CLIPBOARD_TYPE);
+  if (!raw) return null;
+  try {
+    return parseDocument(raw).lines;
+  } catch (e) {
+    console.warn('Ignoring malformed lines on the clipboard:', e);
+    return null;
+  }
+}
+
+// The same lines moved so their bounds are centered on a point
+export function centerLinesOn(lines: Line[], center: Point): Line[] {
+  const bounds = getLinesBounds(lines);
+  if (!bounds) return lines;
+  const dx = center.x - (bounds.minX + bounds.maxX) / 2;
+  const dy = center.y - (bounds.minY + bounds.maxY) / 2;
+  return lines.map(line => ({ ...line, x: line.x + dx, y: line.y + dy }));
+}
+
+/**
+ * Plain text pasted as lines: each row of text becomes a straight line, set
+ * with the font's own spacing, the first one starting at `at`. Right-to-left
+ * rows run leftward from there, so they read in order.
+ */
+export function createTextLines(
+  text: string,
+  at: Point,
+  template: Omit<Line, 'id' | 'chars' | 'x' | 'y'>,
+  createId: () => string
+): Line[] {
+  const lines: Line[] = [];
+  text.split(/\r?\n/).forEach((row, i) => {
+    // Same chars as text pasted while typing
+    const values = getTypedChars(row);
+    if (values.length === 0) return;
+
+    const direction = isRtlText(row) ? -1 : 1;
+    let x = 0;
+    const chars = values.map((value, j) => {
+      if (j > 0) x += direction * getCharSpacing(values[j - 1], value, template);
+      return { id: createId(), value, x, y: 0 };
+    });
+    lines.push({ ...template, id: createId(), chars, x: at.x, y: at.y + i * template.fontSize * TEXT_LINE_HEIGHT });
+  });
+  return lines;
+}
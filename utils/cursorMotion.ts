@@ -0,0 +1,75 @@
+import { Point } from '../types';
+import { CURSOR_TICK_MS } from '../shared/protocol';
+
+/**
+ * Remote cursors arrive a few times a second at best, and not evenly. They're
+ * drawn a little over one arrival interval in the past, gliding between the
+ * positions received. When the next one is late, the cursor carries on in the
+ * direction it was going for half an interval, then eases back to the last
+ * known position, which is where it stays if the user stopped moving.
+ */
+
+export interface CursorSample {
+  point: Point;
+  time: number; // When it arrived, in ms
+}
+
+// Enough samples to even out the arrival interval
+const MAX_SAMPLES = 4;
+
+// Longer gaps mean the cursor sat still; it then glides to the new position in one tick
+const MAX_INTERVAL_MS = 250;
+
+// Samples with a newly arrived position added
+export function addCursorSample(samples: CursorSample[], point: Point, time: number): CursorSample[] {
+  const last = samples[samples.length - 1];
+  if (!last) return [{ point, time }];
+  if (last.point.x === point.x && last.point.y === point.y) return samples;
+
+  if (time - last.time > MAX_INTERVAL_MS) {
+    return [{ point: last.point, time: time - CURSOR_TICK_MS }, { point, time }];
+  }
+  return [...samples, { point, time }].slice(-MAX_SAMPLES);
+}
+
+// How far behind the cursor is drawn, in arrival intervals, leaving room for jitter
+const DELAY_INTERVALS = 1.5;
+
+// Average time between samples
+function getInterval(samples: CursorSample[]): number {
+  if (samples.length < 2) return CURSOR_TICK_MS;
+  const span = samples[samples.length - 1].time - samples[0].time;
+  return Math.min(Math.max(span / (samples.length - 1), 1), MAX_INTERVAL_MS);
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+export function getCursorPosition(samples: CursorSample[], now: number): Point {
+  const last = samples[samples.length - 1];
+  if (samples.length < 2) return last.point;
+
+  const interval = getInterval(samples);
+  const time = now - interval * DELAY_INTERVALS;
+  if (time <= samples[0].time) return samples[0].point;
+
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    if (time <= b.time) return lerp(a.point, b.point, (time - a.time) / (b.time - a.time || 1));
+  }
+
+  // Past the newest position: keep going at the last speed for a while, then come back
+  const before = samples[samples.length - 2];
+  const late = time - last.time;
+  const ahead = late <= interval / 2 ? late : Math.max(interval - late, 0);
+  const next = { x: 2 * last.point.x - before.point.x, y: 2 * last.point.y - before.point.y };
+  return lerp(last.point, next, ahead / (last.time - before.time || 1));
+}
+
+// Whether the cursor has stopped where it'll stay until the next sample
+export function isCursorSettled(samples: CursorSample[], now: number): boolean {
+  if (samples.length < 2) return true;
+  return now - samples[samples.length - 1].time >= (DELAY_INTERVALS + 1) * getInterval(samples);
+}
@@ -0,0 +1,229 @@
+import { Char, Line } from '../types';
+import { getLinesBounds, getLinePath, getFlowDuration, getCharTransform, type Bounds } from '../shared/geometry';
+import { createDocument, DOCUMENT_EXTENSION } from '../shared/document';
+import { getShapedValue } from './text';
+
+// World units of blank space kept around the lines
+const EXPORT_PADDING = 40;
+
+// CSS pixels are defined as 1/96 inch
+const CSS_PX_PER_INCH = 96;
+
+// Browsers refuse to allocate canvases much wider or taller than this
+const MAX_CANVAS_SIZE = 16384;
+
+// Font styles loaded in index.html; text is drawn in the family's default weight
+const FONT_AXES: Record<string, string> = {
+  'Inter': 'wght@500',
+  'Playfair Display': 'wght@400',
+  'Space Mono': 'wght@400',
+};
+
+export interface SvgExportOptions {
+  animate: boolean; // Include the Flow animation as SMIL
+}
+
+export function scaleToDpi(scale: number): number {
+  return Math.round(scale * CSS_PX_PER_INCH);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function fetchAsDataUrl(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} responded with ${res.status}`);
+  const blob = await res.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * @font-face rules for only the glyphs each font family uses, with the font
+ * files inlined as data URLs so the SVG renders the same anywhere.
+ * Google Fonts does the subsetting when given the text.
+ */
+export async function getEmbeddedFontCss(lines: Line[]): Promise<string> {
+  const textByFamily = new Map<string, Set<string>>();
+  lines.forEach(line => {
+    const chars = textByFamily.get(line.fontFamily) ?? new Set<string>();
+    line.chars.forEach(c => chars.add(c.value));
+    textByFamily.set(line.fontFamily, chars);
+  });
+
+  const rules = await Promise.all([...textByFamily].map(async ([family, chars]) => {
+    const axes = FONT_AXES[family];
+    const params = new URLSearchParams({
+      family: axes ? `${family}:${axes}` : family,
+      text: [...chars].join(''),
+    });
+
+    try {
+      const res = await fetch(`https://fonts.googleapis.com/css2?${params}`);
+      if (!res.ok) throw new Error(`Google Fonts responded with ${res.status}`);
+      let css = await res.text();
+
+      const urls = [...new Set(css.match(/url\([^)]+\)/g) ?? [])];
+      for (const match of urls) {
+        const dataUrl = await fetchAsDataUrl(match.slice(4, -1).replace(/['"]/g, ''));
+        css = css.split(match).join(`url(${dataUrl})`);
+      }
+      return css;
+    } catch (e) {
+      // Still export, just with whatever font the viewer has
+      console.warn(`Could not embed font ${family}:`, e);
+      return '';
+    }
+  }));
+
+  return rules.join('\n');
+}
+
+export function getCharTransformAttr(char: Char): string {
+  const transform = getCharTransform(char);
+  return transform ? ` transform="${transform}"` : '';
+}
+
+function renderLine(line: Line, options: SvgExportOptions): string {
+  const textAttrs = `fill="${escapeXml(line.color)}" font-size="${line.fontSize}" font-family="${escapeXml(line.fontFamily)}"`;
+
+  if (options.animate && line.chars.length >= 2) {
+    const pathId = escapeXml(`path-${line.id}`);
+    const text = line.chars.map(c => c.value).join('');
+    return [
+      `<g transform="translate(${line.x}, ${line.y})">`,
+      `<defs><path id="${pathId}" d="${getLinePath(line)}" fill="none"/></defs>`,
+      `<text ${textAttrs} dominant-baseline="middle">`,
+      `<textPath href="#${pathId}" startOffset="0%">`,
+      `<animate attributeName="startOffset" from="-50%" to="0%" dur="${getFlowDuration(line)}s" repeatCount="indefinite"/>`,
+      // Duplicate text for seamless looping, as on screen
+      escapeXml(text + '   ' + text),
+      '</textPath></text></g>',
+    ].join('');
+  }
+
+  const chars = line.chars.map((c, i) =>
+    `<text x="${c.x}" y="${c.y}" text-anchor="middle" dominant-baseline="middle" ${textAttrs}${getCharTransformAttr(c)}>${escapeXml(getShapedValue(line.chars, i))}</text>`
+  );
+  return `<g transform="translate(${line.x}, ${line.y})">${chars.join('')}</g>`;
+}
+
+export interface ExportFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Area of the world an export shows around the given bounds
+export function getExportFrame(bounds: Bounds, lines: Line[]): ExportFrame {
+  // Chars are positioned by their center, so leave room for the largest glyphs too
+  const padding = EXPORT_PADDING + lines.reduce((max, line) => Math.max(max, line.fontSize), 0);
+  return {
+    x: bounds.minX - padding,
+    y: bounds.minY - padding,
+    width: bounds.maxX - bounds.minX + padding * 2,
+    height: bounds.maxY - bounds.minY + padding * 2,
+  };
+}
+
+// Standalone SVG covering every line, or null when there's nothing to export
+async function buildSvg(lines: Line[], options: SvgExportOptions): Promise<{ svg: string; width: number; height: number } | null> {
+  const bounds = getLinesBounds(lines);
+  if (!bounds) return null;
+
+  const { x, y, width, height } = getExportFrame(bounds, lines);
+  const fontCss = await getEmbeddedFontCss(lines);
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    fontCss && `<style><![CDATA[\n${fontCss}\n]]></style>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="white"/>`,
+    ...lines.map(line => renderLine(line, options)),
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+}
+
+export async function exportSvg(lines: Line[], options: SvgExportOptions) {
+  const result = await buildSvg(lines, options);
+  if (!result) return;
+
+  downloadBlob(new Blob([result.svg], { type: 'image/svg+xml;charset=utf-8' }), `type-draw-${Date.now()}.svg`);
+}
+
+// The lines themselves, as a .typedraw file that can be imported again
+export function exportDocument(lines: Line[], roomId: string) {
+  const json = JSON.stringify(createDocument(lines, roomId), null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), `type-draw-${Date.now()}${DOCUMENT_EXTENSION}`);
+}
+
+// Rasterize the full canvas at scale times its size in CSS pixels (scale 1 = 96 DPI)
+export async function exportPng(lines: Line[], scale: number) {
+  const result = await buildSvg(lines, { animate: false });
+  if (!result) return;
+
+  const { svg, width, height } = result;
+  const safeScale = Math.min(scale, MAX_CANVAS_SIZE / width, MAX_CANVAS_SIZE / height);
+  if (safeScale < scale) {
+    console.warn(`Canvas too large to export at ${scale}x, using ${safeScale.toFixed(2)}x`);
+  }
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Could not render the exported SVG'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * safeScale);
+    canvas.height = Math.round(height * safeScale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.scale(safeScale, safeScale);
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    // Add date stamp in bottom-right corner
+    const dateStr = new Date().toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+    ctx.font = '12px sans-serif';
+    ctx.fillStyle = '#9ca3af'; // gray-400
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(dateStr, width - 16, height - 12);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (blob) downloadBlob(blob, `type-draw-${Date.now()}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,156 @@
+import { Char, Line } from '../types';
+import type { TimelineEntry } from '../shared/protocol';
+import { applyLineOp, getOpLineIds, materializeLine, type LineDocs } from '../shared/operations';
+import { getLinesBounds, mergeBounds, type Bounds } from '../shared/geometry';
+import { escapeXml, downloadBlob, getEmbeddedFontCss, getExportFrame, getCharTransformAttr } from './exportCanvas';
+import { getReplayTimes } from './replay';
+
+// Time the finished drawing stays up before the replay starts over
+const REPLAY_HOLD_MS = 3000;
+
+interface CharTrack {
+  char: Char; // As first seen
+  pos: Char; // Where it is now
+  visible: boolean;
+  sets: string[];
+}
+
+// Everything a line went through during the replay
+interface LineTrack {
+  line: Line; // As first seen; style never changes
+  x: number;
+  y: number;
+  visible: boolean;
+  sets: string[];
+  chars: Map<string, CharTrack>;
+}
+
+// Every loop of the replay starts from an empty canvas
+const LOOP_START = 'replay.begin';
+
+// SMIL keyframes switching an attribute at a moment, counted from the start of the loop
+function setDisplay(visible: boolean, begin: string): string {
+  return `<set attributeName="display" to="${visible ? 'inline' : 'none'}" begin="${begin}" fill="freeze"/>`;
+}
+
+function setTranslate(x: number, y: number, begin: string): string {
+  return `<animateTransform attributeName="transform" type="translate" values="${x} ${y}" dur="0.001s" begin="${begin}" fill="freeze"/>`;
+}
+
+// Chars move when text is edited partway through a line
+function setCharPos({ x, y, rotate }: Char, begin: string): string {
+  const at = `begin="${begin}" fill="freeze"`;
+  const turn = rotate === undefined
+    ? ''
+    : `<animateTransform attributeName="transform" type="rotate" values="${rotate} ${x} ${y}" dur="0.001s" ${at}/>`;
+  return `<set attributeName="x" to="${x}" ${at}/><set attributeName="y" to="${y}" ${at}/>${turn}`;
+}
+
+// Record how a line changed, given its state after an entry at begin
+function trackLine(track: LineTrack, line: Line, visible: boolean, begin: string) {
+  if (visible !== track.visible) {
+    track.sets.push(setDisplay(visible, begin));
+    track.visible = visible;
+  }
+  if (line.x !== track.x || line.y !== track.y) {
+    track.sets.push(setTranslate(line.x, line.y, begin));
+    track.x = line.x;
+    track.y = line.y;
+  }
+
+  const present = new Set<string>();
+  line.chars.forEach(c => {
+    present.add(c.id);
+    let char = track.chars.get(c.id);
+    if (!char) {
+      char = { char: c, pos: c, visible: false, sets: [] };
+      track.chars.set(c.id, char);
+    }
+    if (c.x !== char.pos.x || c.y !== char.pos.y || c.rotate !== char.pos.rotate) {
+      char.sets.push(setCharPos(c, begin));
+      char.pos = c;
+    }
+    if (!char.visible) {
+      char.sets.push(setDisplay(true, begin));
+      char.visible = true;
+    }
+  });
+
+  track.chars.forEach((char, id) => {
+    if (char.visible && !present.has(id)) {
+      char.sets.push(setDisplay(false, begin));
+      char.visible = false;
+    }
+  });
+}
+
+function renderTrack(id: string, track: LineTrack): string {
+  const { line } = track;
+  const textAttrs = `fill="${escapeXml(line.color)}" font-size="${line.fontSize}" font-family="${escapeXml(line.fontFamily)}"`;
+  const chars = [...track.chars.values()].map(({ char: c, pos, sets }) => {
+    // Chars that moved go back to where they started
+    const reset = setDisplay(false, LOOP_START) + (pos === c ? '' : setCharPos(c, LOOP_START));
+    return `<text x="${c.x}" y="${c.y}" text-anchor="middle" dominant-baseline="middle" display="none" ${textAttrs}${getCharTransformAttr(c)}>${escapeXml(c.value)}${reset}${sets.join('')}</text>`;
+  });
+  // Resets come first so the loop's own keyframes, later in the document, win ties
+  const reset = setDisplay(false, LOOP_START) + setTranslate(line.x, line.y, LOOP_START);
+  return `<g data-line-id="${escapeXml(id)}" transform="translate(${line.x}, ${line.y})" display="none">${reset}${track.sets.join('')}${chars.join('')}</g>`;
+}
+
+/**
+ * Standalone animated SVG of the room being drawn, entry by entry at the
+ * given speed. Plays on open and loops, with no script or app needed.
+ */
+export async function exportReplay(entries: TimelineEntry[], speed: number) {
+  if (entries.length === 0) return;
+
+  const times = getReplayTimes(entries, speed);
+  const duration = times[times.length - 1] + REPLAY_HOLD_MS;
+
+  const tracks = new Map<string, LineTrack>();
+  let docs: LineDocs = {};
+  let bounds: Bounds | null = null;
+
+  for (let i = 0; i < entries.length; i++) {
+    const { op } = entries[i];
+    docs = applyLineOp(docs, op);
+    const begin = `${LOOP_START}+${(times[i] / 1000).toFixed(3)}s`;
+
+    for (const lineId of getOpLineIds(op)) {
+      const doc = docs[lineId];
+      if (!doc) continue;
+      const line = materializeLine(doc);
+      const visible = !doc.deleted.value;
+
+      let track = tracks.get(lineId);
+      if (!track) {
+        track = { line, x: line.x, y: line.y, visible: false, sets: [], chars: new Map() };
+        tracks.set(lineId, track);
+      }
+      trackLine(track, line, visible, begin);
+      if (visible) bounds = mergeBounds(bounds, getLinesBounds([line]));
+    }
+  }
+  if (!bounds) return;
+
+  // Every char that ever appeared, for the frame and the embedded glyphs
+  const everything: Line[] = [...tracks.values()].map(({ line, chars }) => ({
+    ...line,
+    chars: [...chars.values()].map(c => c.char),
+  }));
+
+  const { x, y, width, height } = getExportFrame(bounds, everything);
+  const fontCss = await getEmbeddedFontCss(everything);
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    fontCss && `<style><![CDATA[\n${fontCss}\n]]></style>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="white">`,
+    // Clock for everything else; restarting it restarts every keyframe
+    `<animate id="replay" attributeName="opacity" values="1" dur="${(duration / 1000).toFixed(3)}s" begin="0s;replay.end"/>`,
+    '</rect>',
+    ...[...tracks].map(([id, track]) => renderTrack(id, track)),
+    '</svg>',
+  ].join('\n');
+
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `type-draw-replay-${Date.now()}.svg`);
+}
@@ -0,0 +1,61 @@
+import { Line } from '../types';
+
+type LineFont = Pick<Line, 'fontFamily' | 'fontSize'>;
+
+// Roughly a monospace advance, for when there's no canvas to measure with
+const FALLBACK_ADVANCE = 0.6;
+
+// Neighbouring chars never sit closer than this, even for zero-width glyphs
+const MIN_SPACING = 1;
+
+let context: CanvasRenderingContext2D | null | undefined;
+const widths = new Map<string, number>();
+
+// Web fonts swap in after loading; widths measured with the fallback font are wrong by then
+if (typeof document !== 'undefined' && document.fonts) {
+  document.fonts.addEventListener('loadingdone', () => widths.clear());
+}
+
+function getContext(): CanvasRenderingContext2D | null {
+  if (context === undefined) {
+    context = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    if (context) context.fontKerning = 'normal';
+  }
+  return context;
+}
+
+// Rendered width of text in the line's font, kerning included
+function measure(text: string, font: LineFont): number {
+  const key = `${font.fontSize}px ${font.fontFamily}\n${text}`;
+  const cached = widths.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  let width = [...text].length * font.fontSize * FALLBACK_ADVANCE;
+  if (ctx) {
+    ctx.font = `${font.fontSize}px "${font.fontFamily}"`;
+    width = ctx.measureText(text).width;
+  }
+  widths.set(key, width);
+  return width;
+}
+
+/**
+ * Distance between the centers of two neighbouring chars, as the font would
+ * set them: half of each glyph's advance plus any kerning between the pair.
+ * Chars are drawn centered on their position, so this is how far apart
+ * they need to be.
+ */
+export function getCharSpacing(previous: string, next: string, font: LineFont): number {
+  const spacing = measure(previous + next, font) - measure(previous, font) / 2 - measure(next, font) / 2;
+  return Math.max(spacing, MIN_SPACING);
+}
+
+// How far the last of these chars sits from the first when set one after another
+export function getTextAdvance(values: string[], font: LineFont): number {
+  let advance = 0;
+  for (let i = 1; i < values.length; i++) {
+    advance += getCharSpacing(values[i - 1], values[i], font);
+  }
+  return advance;
+}
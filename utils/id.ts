@@ -0,0 +1,7 @@
+// Ids for lines, chars, rooms and connections. Random UUIDs where the browser
+// has them (secure contexts only), otherwise random base-36 with the time
+export function createId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2, 11) + Date.now().toString(36);
+}
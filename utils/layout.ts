@@ -0,0 +1,189 @@
+import { Point } from '../types';
+
+// How new letters are placed: toward the cursor one at a time, or along a guide laid out up front
+export type LayoutMode = 'follow' | 'stroke' | 'curve' | 'spiral' | 'circle' | 'ruler';
+
+// Cubic Bezier a curve-mode line is typed along; all four points can be dragged
+export interface CurveHandles {
+  start: Point;
+  control1: Point;
+  control2: Point;
+  end: Point;
+}
+
+// A polyline in world coordinates with the running length at each point,
+// so letters can be dropped at even distances along it
+export interface Guide {
+  points: Point[];
+  lengths: number[];
+}
+
+const CURVE_SEGMENTS = 64;
+const CIRCLE_SEGMENTS = 128;
+const MIN_CIRCLE_RADIUS = 24;
+const SPIRAL_GAP = 28; // Distance between turns
+const SPIRAL_STEP = 4; // Rough length of each sampled segment
+const RULER_SNAP = Math.PI / 12; // 15°
+const TANGENT_SPAN = 2; // Distance either side of a point used to find the guide's direction there
+
+// Open-ended guides (spiral, ruler) are generated this far, which fits any line
+const MAX_GUIDE_LENGTH = 100_000;
+
+export function createGuide(points: Point[]): Guide {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  return { points, lengths };
+}
+
+export function getGuideLength(guide: Guide): number {
+  return guide.lengths[guide.lengths.length - 1] ?? 0;
+}
+
+// The guide's points up to a distance along it, e.g. to draw what's ahead
+export function getGuidePoints(guide: Guide, maxLength: number): Point[] {
+  const points: Point[] = [];
+  let i = 0;
+  for (; i < guide.points.length && guide.lengths[i] <= maxLength; i++) {
+    points.push(guide.points[i]);
+  }
+  // End partway along the segment that crosses maxLength
+  const end = i < guide.points.length ? getGuidePoint(guide, maxLength) : null;
+  if (end) points.push(end);
+  return points;
+}
+
+// Point at a distance along the guide, or null past its end
+export function getGuidePoint(guide: Guide, distance: number): Point | null {
+  const { points, lengths } = guide;
+  if (points.length === 0 || distance < 0 || distance > getGuideLength(guide)) return null;
+  if (points.length === 1) return points[0];
+
+  // Last point at or before the distance
+  let lo = 0;
+  let hi = lengths.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (lengths[mid] <= distance) lo = mid;
+    else hi = mid - 1;
+  }
+  if (lo === points.length - 1) return points[lo];
+
+  const segment = lengths[lo + 1] - lengths[lo];
+  const t = segment > 0 ? (distance - lengths[lo]) / segment : 0;
+  return {
+    x: points[lo].x + (points[lo + 1].x - points[lo].x) * t,
+    y: points[lo].y + (points[lo + 1].y - points[lo].y) * t,
+  };
+}
+
+// Direction of the guide at a distance along it, in degrees clockwise from the x axis
+export function getGuideAngle(guide: Guide, distance: number): number {
+  const length = getGuideLength(guide);
+  const before = getGuidePoint(guide, Math.max(0, distance - TANGENT_SPAN));
+  const after = getGuidePoint(guide, Math.min(length, distance + TANGENT_SPAN));
+  if (!before || !after || (before.x === after.x && before.y === after.y)) return 0;
+  return Math.atan2(after.y - before.y, after.x - before.x) * 180 / Math.PI;
+}
+
+// Start of a curve: a gentle S-bend from the anchor toward the cursor
+export function createCurveHandles(start: Point, toward: Point): CurveHandles {
+  const dx = toward.x - start.x;
+  const dy = toward.y - start.y;
+  const length = Math.hypot(dx, dy);
+  // Too close to tell a direction: lay it out to the right
+  const [ux, uy, span] = length > MIN_CIRCLE_RADIUS ? [dx / length, dy / length, length] : [1, 0, 300];
+  const end = { x: start.x + ux * span, y: start.y + uy * span };
+  const bend = span / 3;
+  return {
+    start,
+    control1: { x: start.x + ux * bend - uy * bend, y: start.y + uy * bend + ux * bend },
+    control2: { x: end.x - ux * bend + uy * bend, y: end.y - uy * bend - ux * bend },
+    end,
+  };
+}
+
+function getCurvePoints({ start, control1, control2, end }: CurveHandles): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= CURVE_SEGMENTS; i++) {
+    const t = i / CURVE_SEGMENTS;
+    const u = 1 - t;
+    const a = u * u * u;
+    const b = 3 * u * u * t;
+    const c = 3 * u * t * t;
+    const d = t * t * t;
+    points.push({
+      x: a * start.x + b * control1.x + c * control2.x + d * end.x,
+      y: a * start.y + b * control1.y + c * control2.y + d * end.y,
+    });
+  }
+  return points;
+}
+
+// One turn around the center, starting on the side facing the cursor
+function getCirclePoints(center: Point, toward: Point): Point[] {
+  const radius = Math.max(MIN_CIRCLE_RADIUS, Math.hypot(toward.x - center.x, toward.y - center.y));
+  const startAngle = Math.atan2(toward.y - center.y, toward.x - center.x);
+  const points: Point[] = [];
+  for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+    const angle = startAngle + (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+  return points;
+}
+
+// Archimedean spiral out from the center, first heading toward the cursor
+function getSpiralPoints(center: Point, toward: Point, maxLength: number): Point[] {
+  const startAngle = Math.atan2(toward.y - center.y, toward.x - center.x);
+  const perRadian = SPIRAL_GAP / (Math.PI * 2);
+  const points: Point[] = [center];
+  let theta = 0;
+  let length = 0;
+  while (length < maxLength) {
+    // Step so each segment is about SPIRAL_STEP long, whatever the radius
+    const radius = perRadian * theta;
+    theta += SPIRAL_STEP / Math.max(radius, SPIRAL_STEP);
+    const r = perRadian * theta;
+    const point = { x: center.x + Math.cos(startAngle + theta) * r, y: center.y + Math.sin(startAngle + theta) * r };
+    const previous = points[points.length - 1];
+    length += Math.hypot(point.x - previous.x, point.y - previous.y);
+    points.push(point);
+  }
+  return points;
+}
+
+// Straight line from the start toward the cursor, snapped to 15° steps
+function getRulerPoints(start: Point, toward: Point, maxLength: number): Point[] {
+  const angle = Math.round(Math.atan2(toward.y - start.y, toward.x - start.x) / RULER_SNAP) * RULER_SNAP;
+  return [start, { x: start.x + Math.cos(angle) * maxLength, y: start.y + Math.sin(angle) * maxLength }];
+}
+
+/**
+ * The guide a new line in the given mode is typed along, starting at the
+ * anchor. Stroke and curve modes bring their own shape; the others are
+ * oriented by the cursor. Follow mode has no guide.
+ * maxLength limits open-ended guides, e.g. for a cheap preview.
+ */
+export function getLayoutGuide(
+  mode: LayoutMode,
+  anchor: Point,
+  target: Point,
+  shape: { stroke: Point[]; curve: CurveHandles | null },
+  maxLength = MAX_GUIDE_LENGTH
+): Guide | null {
+  switch (mode) {
+    case 'follow':
+      return null;
+    case 'stroke':
+      return shape.stroke.length >= 2 ? createGuide(shape.stroke) : null;
+    case 'curve':
+      return shape.curve && createGuide(getCurvePoints(shape.curve));
+    case 'circle':
+      return createGuide(getCirclePoints(anchor, target));
+    case 'spiral':
+      return createGuide(getSpiralPoints(anchor, target, maxLength));
+    case 'ruler':
+      return createGuide(getRulerPoints(anchor, target, maxLength));
+  }
+}
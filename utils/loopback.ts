@@ -0,0 +1,169 @@
+import type * as Party from 'partykit/server';
+import TypeDrawServer from '../party/index';
+import { json } from '../party/http';
+import type { LineDoc } from '../shared/protocol';
+import { applyLineOp, getDocClock } from '../shared/operations';
+
+/**
+ * Runs TypeDrawServer inside the page: a room whose storage is a Map and whose
+ * connections are callbacks, so the app works without a PartyKit deployment
+ * and the server logic runs exactly as it would there. Only what the server
+ * uses of PartyKit is provided.
+ */
+
+// Storage as the server uses it: single keys or batches, and prefix listings sorted by key
+export class MemoryStorage {
+  private values = new Map<string, unknown>();
+  // Told of every write, e.g. to keep a copy of the room in other tabs
+  onWrite: ((entries: Record<string, unknown>, deletedKeys: string[]) => void) | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.values.get(key) as T | undefined;
+  }
+
+  async put<T>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    const entries: Record<string, unknown> = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+    Object.entries(entries).forEach(([key, v]) => this.values.set(key, v));
+    this.onWrite?.(entries, []);
+  }
+
+  async delete(keys: string | string[]): Promise<boolean | number> {
+    const deletedKeys = (typeof keys === 'string' ? [keys] : keys).filter(key => this.values.delete(key));
+    this.onWrite?.({}, deletedKeys);
+    return typeof keys === 'string' ? deletedKeys.length > 0 : deletedKeys.length;
+  }
+
+  async list<T>({ prefix = '' }: { prefix?: string } = {}): Promise<Map<string, T>> {
+    const keys = [...this.values.keys()].filter(key => key.startsWith(prefix)).sort();
+    return new Map(keys.map(key => [key, this.values.get(key) as T]));
+  }
+}
+
+// One client of an in-page room; what the server sends goes to onMessage
+export class LoopbackConnection {
+  state: unknown = null;
+
+  constructor(
+    readonly id: string,
+    private readonly onMessage: (message: string) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  setState(state: unknown) {
+    this.state = state;
+    return state;
+  }
+
+  // Delivered after the server's handler returns, as a socket would
+  send(message: string) {
+    queueMicrotask(() => this.onMessage(message));
+  }
+
+  close() {
+    queueMicrotask(this.onClose);
+  }
+}
+
+export class LoopbackRoom {
+  connections = new Map<string, LoopbackConnection>();
+  readonly server: TypeDrawServer;
+  private readonly ready: Promise<void>;
+
+  // storage: what the room was left with, e.g. by the tab that hosted it before
+  constructor(readonly id: string, seed: LineDoc[] = [], readonly storage = new MemoryStorage()) {
+    this.server = new TypeDrawServer(this.asPartyRoom());
+    this.ready = this.server.onStart().then(() => {
+      // A tab taking over a room adds the lines it already has, which may be newer than the storage
+      seed.forEach(doc => {
+        this.server.state.docs = applyLineOp(this.server.state.docs, { type: 'addLine', line: doc });
+        this.server.store.put(this.server.state.docs[doc.id]);
+        this.server.observeClock(getDocClock(doc));
+      });
+    });
+  }
+
+  // query: what a socket would send as URL search params
+  async connect(connection: LoopbackConnection, query: Record<string, string | undefined>) {
+    await this.ready;
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, value);
+    });
+    this.connections.set(connection.id, connection);
+    const request = new Request(`http://loopback/parties/main/${encodeURIComponent(this.id)}?${params}`);
+    await this.server.onConnect(this.asPartyConnection(connection), { request } as unknown as Party.ConnectionContext);
+  }
+
+  async receive(connection: LoopbackConnection, message: string) {
+    await this.ready;
+    if (!this.connections.has(connection.id)) return;
+    this.server.onMessage(message, this.asPartyConnection(connection));
+  }
+
+  async disconnect(connection: LoopbackConnection) {
+    await this.ready;
+    if (!this.connections.delete(connection.id)) return;
+    this.server.onClose(this.asPartyConnection(connection));
+  }
+
+  // What an HTTP request to the room gets, e.g. its timeline
+  async request(search = ''): Promise<Response> {
+    await this.ready;
+    const request = new Request(`http://loopback/parties/main/${encodeURIComponent(this.id)}${search}`);
+    return this.server.onRequest(request as unknown as Party.Request);
+  }
+
+  private asPartyConnection(connection: LoopbackConnection): Party.Connection {
+    return connection as unknown as Party.Connection;
+  }
+
+  private asPartyRoom(): Party.Room {
+    const room = {
+      id: this.id,
+      storage: this.storage,
+      broadcast: (message: string, without: string[] = []) => {
+        this.connections.forEach(c => {
+          if (!without.includes(c.id)) c.send(message);
+        });
+      },
+      getConnection: (id: string) => this.connections.get(id),
+      getConnections: () => this.connections.values(),
+      // There's no lobby to tell about changes; rooms in the page are listed by getLoopbackLobby
+      context: {
+        parties: new Proxy({}, {
+          get: () => ({ get: () => ({ fetch: async () => new Response(null, { status: 204 }) }) }),
+        }),
+      },
+    };
+    return room as unknown as Party.Room;
+  }
+}
+
+// Rooms run in this page, kept while it's open so leaving a room and coming back finds it as it was
+const rooms = new Map<string, LoopbackRoom>();
+
+export function getLoopbackRoom(roomId: string): LoopbackRoom {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = new LoopbackRoom(roomId);
+    rooms.set(roomId, room);
+  }
+  return room;
+}
+
+export function findLoopbackRoom(roomId: string): LoopbackRoom | undefined {
+  return rooms.get(roomId);
+}
+
+// Rooms hosted by this page for a while, e.g. by a tab serving the others
+export function registerLoopbackRoom(room: LoopbackRoom): () => void {
+  rooms.set(room.id, room);
+  return () => {
+    if (rooms.get(room.id) === room) rooms.delete(room.id);
+  };
+}
+
+// The lobby's answer for rooms running in this page
+export function getLoopbackLobby(): Response {
+  return json({ rooms: [...rooms.values()].map(room => room.server.getSummary()) });
+}
@@ -0,0 +1,53 @@
+import type { TimelineEntry } from '../shared/protocol';
+import { applyLineOp, getOpLineIds, materializeLine, type LineDocs } from '../shared/operations';
+import { getLinesBounds, mergeBounds, type Bounds } from '../shared/geometry';
+
+// Quiet stretches are shortened to this, so a replay isn't mostly waiting
+export const MAX_REPLAY_GAP_MS = 1000;
+
+// Entries between stored snapshots; seeking replays at most this many ops
+const CHECKPOINT_INTERVAL = 100;
+
+// When each entry happens in a replay at the given speed, in ms from the start
+export function getReplayTimes(entries: TimelineEntry[], speed: number): number[] {
+  let elapsed = 0;
+  return entries.map((entry, i) => {
+    if (i > 0) {
+      elapsed += Math.min(Math.max(entry.time - entries[i - 1].time, 0), MAX_REPLAY_GAP_MS) / speed;
+    }
+    return elapsed;
+  });
+}
+
+/**
+ * Rebuilds the room as it was after any number of timeline entries. Keeps a
+ * snapshot every CHECKPOINT_INTERVAL entries so scrubbing stays quick.
+ */
+export class TimelineReplay {
+  private checkpoints: LineDocs[] = [{}];
+  bounds: Bounds | null = null; // Around everything that was ever drawn
+
+  constructor(readonly entries: TimelineEntry[]) {
+    let docs: LineDocs = {};
+    entries.forEach((entry, i) => {
+      docs = applyLineOp(docs, entry.op);
+      getOpLineIds(entry.op).forEach(lineId => {
+        const doc = docs[lineId];
+        if (doc && !doc.deleted.value) {
+          this.bounds = mergeBounds(this.bounds, getLinesBounds([materializeLine(doc)]));
+        }
+      });
+      if ((i + 1) % CHECKPOINT_INTERVAL === 0) this.checkpoints.push(docs);
+    });
+  }
+
+  // The room after the first count entries
+  getDocsAt(count: number): LineDocs {
+    const index = Math.min(Math.floor(count / CHECKPOINT_INTERVAL), this.checkpoints.length - 1);
+    let docs = this.checkpoints[index];
+    for (let i = index * CHECKPOINT_INTERVAL; i < count && i < this.entries.length; i++) {
+      docs = applyLineOp(docs, this.entries[i].op);
+    }
+    return docs;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LineIndex } from './spatialIndex';
+import type { Line } from '../types';
+
+function createLine(id: string, points: Array<{ x: number; y: number }>): Line {
+  return {
+    id,
+    chars: points.map((p, i) => ({ id: `${id}-${i}`, value: 'a', ...p })),
+    x: 0,
+    y: 0,
+    userId: 'user',
+    color: '#000000',
+    fontSize: 18,
+    fontFamily: 'Inter',
+  };
+}
+
+describe('LineIndex', () => {
+  it('finds lines near an area or point', () => {
+    const near = createLine('near', [{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+    const far = createLine('far', [{ x: 5000, y: 5000 }, { x: 5100, y: 5000 }]);
+    const index = new LineIndex().withLines([near, far]);
+
+    expect(index.query({ minX: -10, minY: -10, maxX: 10, maxY: 10 })).toEqual(new Set(['near']));
+    expect(index.hitTest({ x: 50, y: 2 }, 10)?.id).toBe('near');
+    expect(index.hitTest({ x: 50, y: 200 }, 10)).toBeNull();
+  });
+
+  it('keeps lines spanning the whole canvas without filing them under every cell', () => {
+    const huge = createLine('huge', [{ x: -1_000_000, y: -1_000_000 }, { x: 1_000_000, y: 1_000_000 }]);
+    const index = new LineIndex().withLines([huge, createLine('small', [{ x: 0, y: 0 }])]);
+
+    expect(index.query({ minX: 900, minY: 900, maxX: 1000, maxY: 1000 })).toEqual(new Set(['huge']));
+    expect(index.hitTest({ x: 500, y: 500 }, 10)?.id).toBe('huge');
+
+    const empty = index.withLines([]);
+    expect(empty.query({ minX: 900, minY: 900, maxX: 1000, maxY: 1000 })).toEqual(new Set());
+  });
+
+  it('leaves the index it was made from as it was', () => {
+    const line = createLine('line', [{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+    const before = new LineIndex().withLines([line]);
+    const moved = { ...line, x: 5000, y: 5000 };
+    const after = before.withLines([moved]);
+
+    const origin = { minX: -10, minY: -10, maxX: 10, maxY: 10 };
+    const destination = { minX: 4990, minY: 4990, maxX: 5010, maxY: 5010 };
+    expect(before.query(origin)).toEqual(new Set(['line']));
+    expect(before.query(destination)).toEqual(new Set());
+    expect(after.query(origin)).toEqual(new Set());
+    expect(after.query(destination)).toEqual(new Set(['line']));
+    expect(before.get('line')).toBe(line);
+  });
+});
@@ -0,0 +1,169 @@
+import { Line, Point } from '../types';
+import { getLinesBounds, type Bounds } from '../shared/geometry';
+
+// Side of a grid cell in world units, around a few words at common font sizes
+const CELL_SIZE = 256;
+
+// Lines spanning more cells than this aren't filed under cells at all, but checked on
+// every query; a line with two chars far apart would otherwise fill millions of cells
+const MAX_CELLS_PER_LINE = 256;
+
+interface Entry {
+  line: Line;
+  bounds: Bounds; // Padded by the font size, since glyphs reach past their centers
+  cells: string[];
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+function getCellCount(area: Bounds): number {
+  return (Math.floor(area.maxX / CELL_SIZE) - Math.floor(area.minX / CELL_SIZE) + 1)
+    * (Math.floor(area.maxY / CELL_SIZE) - Math.floor(area.minY / CELL_SIZE) + 1);
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Lines filed under the grid cells their bounds cover, so finding what's on
+ * screen or under the pointer only looks at lines nearby. An index never
+ * changes once made: indexing new lines makes a new one. Lines keep their
+ * identity until they change, so that only refiles the ones that did, and
+ * shares the cells it didn't touch with the index it was made from.
+ */
+export class LineIndex {
+  private lines: Line[] = [];
+  private entries = new Map<string, Entry>();
+  private cells = new Map<string, Set<string>>();
+  private ownCells = new Set<string>(); // Cells whose id sets this index made, rather than shares
+  private order = new Map<string, number>(); // Draw order, for what's on top
+  private oversized = new Set<string>(); // Ids of lines too large to file under cells
+
+  // An index of the given lines, starting from this one's filing
+  withLines(lines: Line[]): LineIndex {
+    if (lines === this.lines) return this;
+    const next = new LineIndex();
+    next.lines = lines;
+    next.entries = new Map(this.entries);
+    next.cells = new Map(this.cells);
+    next.oversized = new Set(this.oversized);
+
+    const current = new Set<string>();
+    lines.forEach((line, i) => {
+      current.add(line.id);
+      next.order.set(line.id, i);
+      const entry = next.entries.get(line.id);
+      if (entry?.line === line) return;
+      if (entry) next.remove(entry);
+      next.add(line);
+    });
+    next.entries.forEach(entry => {
+      if (!current.has(entry.line.id)) next.remove(entry);
+    });
+    return next;
+  }
+
+  get(id: string): Line | undefined {
+    return this.entries.get(id)?.line;
+  }
+
+  // Ids of lines whose bounds reach into the area
+  query(area: Bounds): Set<string> {
+    const ids = new Set<string>();
+    // Zoomed far out, the area spans more cells than there are lines to check
+    if (getCellCount(area) > this.entries.size) {
+      this.entries.forEach((entry, id) => {
+        if (intersects(entry.bounds, area)) ids.add(id);
+      });
+      return ids;
+    }
+
+    this.forEachCell(area, cell => {
+      this.cells.get(cell)?.forEach(id => {
+        const entry = this.entries.get(id);
+        if (entry && intersects(entry.bounds, area)) ids.add(id);
+      });
+    });
+    this.oversized.forEach(id => {
+      if (intersects(this.entries.get(id)!.bounds, area)) ids.add(id);
+    });
+    return ids;
+  }
+
+  // The topmost line within tolerance (world units) of the point along its chars,
+  // or within half its font size, which is about where its letters are
+  hitTest(point: Point, tolerance: number): Line | null {
+    let hit: Line | null = null;
+    const area = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+    this.query(area).forEach(id => {
+      const { line } = this.entries.get(id)!;
+      if (hit && this.order.get(hit.id)! > this.order.get(id)!) return;
+
+      const reach = Math.max(tolerance, line.fontSize / 2);
+      const local = { x: point.x - line.x, y: point.y - line.y };
+      const { chars } = line;
+      const near = chars.length === 1
+        ? Math.hypot(local.x - chars[0].x, local.y - chars[0].y) <= reach
+        : chars.some((c, i) => i > 0 && distanceToSegment(local, chars[i - 1], c) <= reach);
+      if (near) hit = line;
+    });
+    return hit;
+  }
+
+  private add(line: Line) {
+    const bounds = getLinesBounds([line]);
+    if (!bounds) return;
+    const pad = line.fontSize;
+    const padded = { minX: bounds.minX - pad, minY: bounds.minY - pad, maxX: bounds.maxX + pad, maxY: bounds.maxY + pad };
+
+    const cells: string[] = [];
+    if (getCellCount(padded) > MAX_CELLS_PER_LINE) {
+      this.oversized.add(line.id);
+      this.entries.set(line.id, { line, bounds: padded, cells });
+      return;
+    }
+    this.forEachCell(padded, cell => {
+      cells.push(cell);
+      this.getOwnCell(cell).add(line.id);
+    });
+    this.entries.set(line.id, { line, bounds: padded, cells });
+  }
+
+  private remove(entry: Entry) {
+    this.oversized.delete(entry.line.id);
+    entry.cells.forEach(cell => {
+      const ids = this.getOwnCell(cell);
+      ids.delete(entry.line.id);
+      if (ids.size === 0) this.cells.delete(cell);
+    });
+    this.entries.delete(entry.line.id);
+  }
+
+  // A cell's ids, copied first if they're shared with the index this one was made from
+  private getOwnCell(cell: string): Set<string> {
+    let ids = this.cells.get(cell);
+    if (!ids || !this.ownCells.has(cell)) {
+      ids = new Set(ids);
+      this.cells.set(cell, ids);
+      this.ownCells.add(cell);
+    }
+    return ids;
+  }
+
+  private forEachCell(area: Bounds, fn: (cell: string) => void) {
+    const minX = Math.floor(area.minX / CELL_SIZE);
+    const maxX = Math.floor(area.maxX / CELL_SIZE);
+    const minY = Math.floor(area.minY / CELL_SIZE);
+    const maxY = Math.floor(area.maxY / CELL_SIZE);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) fn(`${x},${y}`);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getShapedValue, getTypedChars, isRtlText, splitGraphemes } from './text';
+
+const ZWJ = '\u200D';
+
+function chars(text: string) {
+  return splitGraphemes(text).map(value => ({ value }));
+}
+
+describe('splitGraphemes', () => {
+  it('keeps emoji sequences, flags and accented letters whole', () => {
+    const family = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}';
+    const flag = '\u{1F1EF}\u{1F1F5}';
+    const accented = 'e\u0301';
+    const thumbsUp = '\u{1F44D}\u{1F3FD}';
+    expect(splitGraphemes(`a${family}${flag}${accented}${thumbsUp}`)).toEqual(['a', family, flag, accented, thumbsUp]);
+  });
+
+  it('splits right-to-left text in the order it was written', () => {
+    expect(splitGraphemes('שָׁלוֹם')).toEqual(['שָׁ', 'ל', 'וֹ', 'ם']);
+    expect(splitGraphemes('سلام')).toEqual(['س', 'ل', 'ا', 'م']);
+  });
+});
+
+describe('getTypedChars', () => {
+  it('drops control chars such as newlines and tabs', () => {
+    expect(getTypedChars('a\tb\r\nc')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops clusters too long to send', () => {
+    expect(getTypedChars(`a${'\u0301'.repeat(40)}b`)).toEqual(['b']);
+  });
+});
+
+describe('isRtlText', () => {
+  it('goes by the first letter, past digits and punctuation', () => {
+    expect(isRtlText('12, שלום')).toBe(true);
+    expect(isRtlText('«مرحبا»')).toBe(true);
+    expect(isRtlText('hello שלום')).toBe(false);
+    expect(isRtlText('123')).toBe(false);
+  });
+});
+
+describe('getShapedValue', () => {
+  it('joins Arabic letters to their Arabic neighbours', () => {
+    const word = chars('سلام');
+    expect(word.map((_, i) => getShapedValue(word, i))).toEqual([`س${ZWJ}`, `${ZWJ}ل${ZWJ}`, `${ZWJ}ا${ZWJ}`, `${ZWJ}م`]);
+  });
+
+  it('leaves letters next to other scripts, and other scripts, as they are', () => {
+    const mixed = chars('aسb');
+    expect(mixed.map((_, i) => getShapedValue(mixed, i))).toEqual(['a', 'س', 'b']);
+    const hebrew = chars('שלום');
+    expect(hebrew.map((_, i) => getShapedValue(hebrew, i))).toEqual(['ש', 'ל', 'ו', 'ם']);
+  });
+});
@@ -0,0 +1,47 @@
+import { Char } from '../types';
+import { LIMITS } from '../shared/protocol';
+
+// Grapheme clusters where the browser can find them, otherwise code points,
+// which at least keep surrogate pairs together
+const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+// Letters as a reader sees them: an emoji sequence, a flag or a letter with its accents is one each
+export function splitGraphemes(text: string): string[] {
+  if (!segmenter) return Array.from(text);
+  return Array.from(segmenter.segment(text), s => s.segment);
+}
+
+/**
+ * The chars typed or pasted text becomes, one per grapheme. Control chars
+ * such as newlines and tabs are dropped, and so are clusters too long to
+ * send (e.g. a letter under dozens of stacked accents).
+ */
+export function getTypedChars(text: string): string[] {
+  return splitGraphemes(text).filter(g => !/\p{Cc}/u.test(g) && g.length <= LIMITS.charValueLength);
+}
+
+const RTL_SCRIPT = /^[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+// Whether text reads right to left, going by its first letter as bidi does
+export function isRtlText(text: string): boolean {
+  const letter = text.match(/\p{L}/u);
+  return !!letter && RTL_SCRIPT.test(letter[0]);
+}
+
+// Scripts whose letters connect to their neighbours
+const JOINING_SCRIPT = /^[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}]/u;
+const ZWJ = '\u200D';
+
+/**
+ * What to draw for chars[index]. Each char is its own text element, so
+ * Arabic-script letters would all take their isolated forms; zero-width
+ * joiners toward joining neighbours bring back the connected forms the
+ * letters have in running text.
+ */
+export function getShapedValue(chars: Pick<Char, 'value'>[], index: number): string {
+  const { value } = chars[index];
+  if (!JOINING_SCRIPT.test(value)) return value;
+  const before = index > 0 && JOINING_SCRIPT.test(chars[index - 1].value) ? ZWJ : '';
+  const after = index < chars.length - 1 && JOINING_SCRIPT.test(chars[index + 1].value) ? ZWJ : '';
+  return before + value + after;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { applyLineTransform, getLineTransform, type GroupTransform } from './transform';
+import { applyLineOp, createLineDoc, materializeLine } from '../shared/operations';
+import type { Line } from '../types';
+
+function createLine(): Line {
+  return {
+    id: 'line',
+    chars: [{ id: 'a', value: 'a', x: 0, y: 0 }, { id: 'b', value: 'b', x: 12, y: 0, rotate: 170 }],
+    x: 10,
+    y: 20,
+    userId: 'user',
+    color: '#000000',
+    fontSize: 18,
+    fontFamily: 'Inter',
+  };
+}
+
+function transform(line: Line, group: Partial<GroupTransform>): Line {
+  return applyLineTransform(line, getLineTransform(line, { center: { x: 0, y: 0 }, angle: 0, scale: 1, offset: { x: 0, y: 0 }, ...group }));
+}
+
+describe('getLineTransform and applyLineTransform', () => {
+  it('only moves the origin for a plain move, keeping the chars as they are', () => {
+    const line = createLine();
+    const moved = transform(line, { offset: { x: 5, y: -5 } });
+    expect({ x: moved.x, y: moved.y }).toEqual({ x: 15, y: 15 });
+    expect(moved.chars).toEqual(line.chars);
+  });
+
+  it('turns the line around the center, turning its letters along', () => {
+    const turned = transform(createLine(), { angle: 90 });
+    expect({ x: turned.x, y: turned.y }).toEqual({ x: -20, y: 10 });
+    expect(turned.chars).toEqual([
+      { id: 'a', value: 'a', x: 0, y: 0, rotate: 90 },
+      { id: 'b', value: 'b', x: 0, y: 12, rotate: -100 },
+    ]);
+  });
+
+  it('comes back to where it started when undone', () => {
+    const line = createLine();
+    const center = { x: 3, y: 7 };
+    const turned = transform(line, { center, angle: 30, scale: 2, offset: { x: 4, y: 4 } });
+    const back = transform(transform(turned, { offset: { x: -4, y: -4 } }), { center, angle: -30, scale: 0.5 });
+
+    expect(back.x).toBeCloseTo(line.x, 1);
+    expect(back.y).toBeCloseTo(line.y, 1);
+    back.chars.forEach((char, i) => {
+      expect(char.x).toBeCloseTo(line.chars[i].x, 1);
+      expect(char.y).toBeCloseTo(line.chars[i].y, 1);
+    });
+    expect(back.chars.map(c => c.rotate)).toEqual([0, 170]);
+  });
+
+  it('previews exactly what the room shows once the transform is applied', () => {
+    const line = createLine();
+    const lineTransform = getLineTransform(line, { center: { x: 1, y: 2 }, angle: 45, scale: 1.5, offset: { x: 3, y: 4 } });
+    const stamp = { clock: 2, site: 'user' };
+    const docs = applyLineOp({ line: createLineDoc(line, { clock: 1, site: 'user' }) }, { type: 'transformLines', lines: [lineTransform], stamp });
+
+    expect(applyLineTransform(line, lineTransform)).toEqual(materializeLine(docs.line));
+  });
+});
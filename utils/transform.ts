@@ -0,0 +1,68 @@
+import { Line, Point } from '../types';
+import type { LineTransform } from '../shared/protocol';
+
+// Turn by angle and scale around center, then shift by offset; applied to a whole selection
+export interface GroupTransform {
+  center: Point;
+  angle: number; // Degrees clockwise
+  scale: number;
+  offset: Point;
+}
+
+// Transformed positions are rounded (to 1/100 px and 1/10°) so ops stay small
+const POSITION_PRECISION = 100;
+const ANGLE_PRECISION = 10;
+
+function round(value: number, precision: number): number {
+  return Math.round(value * precision) / precision;
+}
+
+// Same direction, between -180 and 180
+function normalizeAngle(degrees: number): number {
+  const angle = ((degrees % 360) + 360) % 360;
+  return round(angle > 180 ? angle - 360 : angle, ANGLE_PRECISION);
+}
+
+/**
+ * Where a group transform puts one line. Its origin moves with the group;
+ * its chars, relative to the origin, are only rewritten when the group turns
+ * or scales. Letters turn with the group but keep their size, since font
+ * size belongs to the whole line.
+ */
+export function getLineTransform(line: Line, { center, angle, scale, offset }: GroupTransform): LineTransform {
+  const radians = angle * Math.PI / 180;
+  const cos = Math.cos(radians) * scale;
+  const sin = Math.sin(radians) * scale;
+  const turn = (p: Point): Point => ({ x: cos * p.x - sin * p.y, y: sin * p.x + cos * p.y });
+
+  const origin = turn({ x: line.x - center.x, y: line.y - center.y });
+  const pos = {
+    x: round(center.x + origin.x + offset.x, POSITION_PRECISION),
+    y: round(center.y + origin.y + offset.y, POSITION_PRECISION),
+  };
+  if (angle === 0 && scale === 1) return { lineId: line.id, pos, chars: [] };
+
+  return {
+    lineId: line.id,
+    pos,
+    chars: line.chars.map(char => {
+      const { x, y } = turn(char);
+      const rotate = angle === 0 ? char.rotate : normalizeAngle((char.rotate ?? 0) + angle);
+      const point = { x: round(x, POSITION_PRECISION), y: round(y, POSITION_PRECISION) };
+      return { id: char.id, pos: rotate === undefined ? point : { ...point, rotate } };
+    }),
+  };
+}
+
+// The line as it looks once the transform is applied, e.g. to preview it before sending
+export function applyLineTransform(line: Line, { pos, chars }: LineTransform): Line {
+  const positions = new Map(chars.map(move => [move.id, move.pos]));
+  return {
+    ...line,
+    ...pos,
+    chars: line.chars.map(c => {
+      const moved = positions.get(c.id);
+      return moved ? { id: c.id, value: c.value, ...moved } : c;
+    }),
+  };
+}
@@ -0,0 +1,322 @@
+import PartySocket from 'partysocket';
+import { LOBBY_PARTY, type LineDoc } from '../shared/protocol';
+import { LoopbackConnection, LoopbackRoom, MemoryStorage, findLoopbackRoom, getLoopbackLobby, getLoopbackRoom, registerLoopbackRoom } from './loopback';
+import { createId } from './id';
+
+/**
+ * How a client reaches its room:
+ * - party: a PartyKit deployment (or `partykit dev`) over a WebSocket
+ * - broadcast: tabs of this browser share rooms, one tab running the server for the rest
+ * - local: a server running in this page only, for solo drawing offline
+ * Picked with ?transport= in the URL or VITE_TRANSPORT, defaulting to party.
+ */
+export type TransportKind = 'party' | 'broadcast' | 'local';
+
+const TRANSPORT_KINDS: TransportKind[] = ['party', 'broadcast', 'local'];
+
+function getTransportKind(): TransportKind {
+  const requested = new URLSearchParams(window.location.search).get('transport') ?? import.meta.env.VITE_TRANSPORT;
+  if (!requested) return 'party';
+  if (TRANSPORT_KINDS.includes(requested as TransportKind)) return requested as TransportKind;
+  console.warn(`Unknown transport "${requested}", using party`);
+  return 'party';
+}
+
+export const TRANSPORT_KIND = getTransportKind();
+
+export const PARTYKIT_HOST = import.meta.env.VITE_PARTYKIT_HOST || 'type-draw.yulilith.partykit.dev';
+
+// HTTP endpoint of a party room, e.g. the lobby list or a room's timeline
+export function getPartyHttpUrl(party: string, roomId: string): string {
+  // Same rule partysocket uses to pick ws:// over wss://
+  const isLocal = PARTYKIT_HOST.startsWith('localhost') || PARTYKIT_HOST.startsWith('127.0.0.1');
+  return `${isLocal ? 'http' : 'https'}://${PARTYKIT_HOST}/parties/${party}/${encodeURIComponent(roomId)}`;
+}
+
+// A request to a party room, answered in the page when the room runs here
+export async function fetchParty(party: string, roomId: string, search = ''): Promise<Response> {
+  if (TRANSPORT_KIND === 'party') return fetch(getPartyHttpUrl(party, roomId) + search);
+  if (party === LOBBY_PARTY) return getLoopbackLobby();
+
+  const room = findLoopbackRoom(roomId);
+  if (!room) return new Response('Room is running in another tab', { status: 503 });
+  return room.request(search);
+}
+
+export interface TransportOptions {
+  roomId: string;
+  // Sent on every (re)connect, like a socket's URL query
+  query: () => Record<string, string | undefined>;
+  // Lines to start a room with if this page ends up running its server
+  seed: () => LineDoc[];
+}
+
+type TransportEvent = 'open' | 'close' | 'message';
+
+/**
+ * What the client needs of a connection: sending, closing for good, and
+ * open / close / message events. Messages are protocol JSON in both directions.
+ */
+export interface Transport {
+  readonly isOpen: boolean;
+  send(message: string): void;
+  close(): void;
+  addEventListener(type: 'open' | 'close', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: { data: string }) => void): void;
+}
+
+abstract class BaseTransport implements Transport {
+  isOpen = false;
+  protected closed = false;
+  private listeners: Record<TransportEvent, Array<(event: { data: string }) => void>> = {
+    open: [],
+    close: [],
+    message: [],
+  };
+
+  abstract send(message: string): void;
+  abstract close(): void;
+
+  addEventListener(type: TransportEvent, listener: (event: { data: string }) => void) {
+    this.listeners[type].push(listener);
+  }
+
+  protected emit(type: TransportEvent, data = '') {
+    if (type === 'open') this.isOpen = true;
+    if (type === 'close') this.isOpen = false;
+    this.listeners[type].forEach(listener => listener({ data }));
+  }
+}
+
+// A PartyKit room over a WebSocket that reconnects by itself
+class PartyTransport extends BaseTransport {
+  private socket: PartySocket;
+
+  constructor({ roomId, query }: TransportOptions) {
+    super();
+    this.socket = new PartySocket({ host: PARTYKIT_HOST, room: roomId, query });
+    this.socket.addEventListener('open', () => this.emit('open'));
+    this.socket.addEventListener('close', () => this.emit('close'));
+    this.socket.addEventListener('message', (event) => this.emit('message', event.data));
+  }
+
+  send(message: string) {
+    this.socket.send(message);
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+// A room kept in this page; closing only leaves it
+class LocalTransport extends BaseTransport {
+  private room: LoopbackRoom;
+  private connection: LoopbackConnection;
+
+  constructor({ roomId, query }: TransportOptions) {
+    super();
+    this.room = getLoopbackRoom(roomId);
+    this.connection = new LoopbackConnection(
+      createId(),
+      (message) => this.emit('message', message),
+      () => this.close()
+    );
+    this.room.connect(this.connection, query()).then(() => {
+      if (!this.closed) this.emit('open');
+    });
+  }
+
+  send(message: string) {
+    this.room.receive(this.connection, message);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.room.disconnect(this.connection);
+    if (this.isOpen) this.emit('close');
+  }
+}
+
+// What goes over a room's BroadcastChannel. Clients talk to whichever tab hosts the room.
+type ChannelMessage =
+  | { type: 'host' } // A tab started hosting; clients (re)connect to it
+  | { type: 'connect'; connectionId: string; query: Record<string, string | undefined> }
+  | { type: 'open'; connectionId: string }
+  | { type: 'message'; connectionId: string; message: string }
+  | { type: 'close'; connectionId: string }
+  // What the host wrote to the room's storage, so whoever hosts next starts from it
+  | { type: 'storage'; entries: Record<string, unknown>; deletedKeys: string[] };
+
+function getChannelName(roomId: string): string {
+  return `type-draw:${roomId}`;
+}
+
+/**
+ * A room shared by the tabs of this browser. Every tab is a client over the
+ * room's BroadcastChannel; the one holding the room's lock also runs the
+ * server. Every tab keeps a copy of the room's storage as the host writes it.
+ * When the host closes, the next tab in line takes over, starting the server
+ * from that copy and the lines it has, and everyone reconnects to it.
+ */
+class BroadcastTransport extends BaseTransport {
+  private channel: BroadcastChannel;
+  private connectionId = createId();
+  private stopHosting: (() => void) | null = null;
+  private storage = new MemoryStorage();
+
+  constructor(private readonly options: TransportOptions) {
+    super();
+    this.channel = new BroadcastChannel(getChannelName(options.roomId));
+    this.channel.addEventListener('message', this.handleMessage);
+    window.addEventListener('pagehide', this.handlePageHide);
+
+    // Whoever hosts now answers right away; otherwise the host's announcement brings us in
+    this.connect();
+    this.requestHosting();
+  }
+
+  send(message: string) {
+    this.post({ type: 'message', connectionId: this.connectionId, message });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.post({ type: 'close', connectionId: this.connectionId });
+    this.channel.close();
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.stopHosting?.();
+    if (this.isOpen) this.emit('close');
+  }
+
+  private connect() {
+    this.post({ type: 'connect', connectionId: this.connectionId, query: this.options.query() });
+  }
+
+  private post(message: ChannelMessage) {
+    if (!this.closed || message.type === 'close') this.channel.postMessage(message);
+  }
+
+  private handleMessage = ({ data }: MessageEvent<ChannelMessage>) => {
+    if (data.type === 'storage') {
+      // The host writes to this copy itself
+      if (this.stopHosting) return;
+      this.storage.put(data.entries);
+      if (data.deletedKeys.length > 0) this.storage.delete(data.deletedKeys);
+      return;
+    }
+    if (data.type === 'host') {
+      // The old host is gone, and with it our connection
+      if (this.isOpen) this.emit('close');
+      this.connect();
+      return;
+    }
+    if (!('connectionId' in data) || data.connectionId !== this.connectionId) return;
+
+    if (data.type === 'open' && !this.isOpen) this.emit('open');
+    if (data.type === 'message') this.emit('message', data.message);
+    if (data.type === 'close' && this.isOpen) this.emit('close');
+  };
+
+  // The tab may go away without unmounting anything
+  private handlePageHide = () => this.close();
+
+  // Wait in line for the room's lock, and serve the room for as long as we hold it
+  private requestHosting() {
+    if (!navigator.locks) {
+      console.warn('Web Locks are unavailable, so this tab runs its own room');
+      this.host();
+      return;
+    }
+    navigator.locks.request(getChannelName(this.options.roomId), () => {
+      if (this.closed) return undefined;
+      return new Promise<void>(release => this.host(release));
+    });
+  }
+
+  private host(release?: () => void) {
+    // A channel of its own, since a BroadcastChannel doesn't hear its own messages
+    const channel = new BroadcastChannel(getChannelName(this.options.roomId));
+    const connections = new Map<string, LoopbackConnection>();
+
+    const post = (message: ChannelMessage) => channel.postMessage(message);
+    this.storage.onWrite = (entries, deletedKeys) => post({ type: 'storage', entries, deletedKeys });
+    const room = new LoopbackRoom(this.options.roomId, this.options.seed(), this.storage);
+    const unregister = registerLoopbackRoom(room);
+    const disconnect = (connectionId: string) => {
+      const connection = connections.get(connectionId);
+      if (!connection) return;
+      connections.delete(connectionId);
+      room.disconnect(connection);
+    };
+
+    channel.addEventListener('message', ({ data }: MessageEvent<ChannelMessage>) => {
+      switch (data.type) {
+        case 'connect': {
+          disconnect(data.connectionId);
+          const { connectionId } = data;
+          // What the server sends before the connection is open waits for it, as over a socket
+          let held: string[] | null = [];
+          const send = (message: string) => post({ type: 'message', connectionId, message });
+          const sendHeld = () => {
+            held?.forEach(send);
+            held = null;
+          };
+          const connection = new LoopbackConnection(
+            connectionId,
+            (message) => (held ? held.push(message) : send(message)),
+            () => {
+              disconnect(connectionId);
+              sendHeld();
+              post({ type: 'close', connectionId });
+            }
+          );
+          connections.set(connectionId, connection);
+
+          // A tab that just came has none of the room's storage yet
+          room.storage.list().then(entries => post({ type: 'storage', entries: Object.fromEntries(entries), deletedKeys: [] }));
+          room.connect(connection, data.query).then(() => {
+            if (connections.get(connectionId) !== connection) return;
+            post({ type: 'open', connectionId });
+            sendHeld();
+          });
+          break;
+        }
+        case 'message': {
+          const connection = connections.get(data.connectionId);
+          if (connection) room.receive(connection, data.message);
+          break;
+        }
+        case 'close':
+          disconnect(data.connectionId);
+          break;
+      }
+    });
+    post({ type: 'host' });
+
+    this.stopHosting = () => {
+      // Writes the server still holds back reach the other tabs' copies before we go
+      Promise.all([room.server.store.flush(), room.server.timeline.flush()])
+        .catch(e => console.error('Error persisting room before handing it over:', e))
+        .finally(() => {
+          this.storage.onWrite = null;
+          channel.close();
+          unregister();
+          release?.();
+        });
+    };
+  }
+}
+
+export function createTransport(options: TransportOptions, kind: TransportKind = TRANSPORT_KIND): Transport {
+  switch (kind) {
+    case 'party':
+      return new PartyTransport(options);
+    case 'broadcast':
+      return new BroadcastTransport(options);
+    case 'local':
+      return new LocalTransport(options);
+  }
+}
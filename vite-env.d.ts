@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_PARTYKIT_HOST: string;
+  readonly VITE_TRANSPORT?: string; // party, broadcast or local
 }
 
 interface ImportMeta {